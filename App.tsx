@@ -1,10 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSocket } from './hooks/useSocket';
-import { GamePhase, COLORS, AVATAR_ACCESSORIES, AVATAR_SHAPES, AvatarConfig, PlayerType, Player, Room } from './types';
-import { TURN_DURATION_SECONDS } from './constants';
+import { GamePhase, COLORS, AVATAR_ACCESSORIES, AVATAR_SHAPES, AvatarConfig, PlayerType, Player, Room, RoomSettings, CustomWordMode, WordOption, PointsPart } from './types';
+import { DEFAULT_ROOM_SETTINGS, MAX_MESSAGE_LENGTH, PAUSABLE_PHASES, TEAMS } from './constants';
 import { DrawingCanvas } from './components/DrawingCanvas';
+import { DrawingGallery } from './components/DrawingGallery';
+import { DrawingView } from './components/DrawingView';
+import { RoomSettingsPanel } from './components/RoomSettingsPanel';
+import { CustomWordsInput } from './components/CustomWordsInput';
+import { PlayerModerationActions } from './components/PlayerModerationActions';
+import { VoteKickBanner } from './components/VoteKickBanner';
+import { TeamStandings } from './components/TeamStandings';
+import { TelephoneGame } from './components/TelephoneGame';
+import { PausedOverlay } from './components/PausedOverlay';
+import { parseCustomWords } from './services/words';
+import { downloadResultsCsv, downloadResultsJson } from './services/results';
+import { getTeamCount, groupByTeam, rankTeams } from './services/teams';
 import { Avatar } from './components/Avatar';
-import { Clock, Trophy, Send, Pencil, Lock, Users, ChevronLeft, MessageSquare, Shield, Play, Home, Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import { Clock, Trophy, Send, Pencil, Lock, Users, ChevronLeft, MessageSquare, Shield, Play, Home, Wifi, WifiOff, RefreshCw, Bot, X, Eye, Crown, UserX, Check, UserCircle, Download, Shuffle, Pause, SkipForward } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 // Generate a unique player ID (persisted in sessionStorage)
@@ -22,6 +34,9 @@ const App: React.FC = () => {
     isConnected,
     currentRoom,
     players,
+    spectators,
+    voteKick,
+    kickInfo,
     gameState,
     wordOptions,
     playerId,
@@ -29,11 +44,32 @@ const App: React.FC = () => {
     joinRoom: socketJoinRoom,
     leaveRoom,
     getPublicRooms,
+    updateSettings,
+    addBot,
+    removeBot,
+    setTeam,
+    balanceTeams,
+    kickPlayer,
+    transferHost,
+    startVoteKick,
+    castVoteKick,
+    dismissKick,
     startGame: socketStartGame,
     selectWord: socketSelectWord,
-    updateDrawing,
+    rerollWords,
+    pauseGame,
+    resumeGame,
+    skipTurn,
+    sendDrawEvent,
+    gallery,
+    profile,
+    saveProfile,
+    refreshProfile,
+    getGameRecord,
     submitGuess,
     sendChatMessage,
+    submitTelephone,
+    revealTelephoneNext,
     restartGame: socketRestartGame
   } = useSocket();
   
@@ -45,6 +81,10 @@ const App: React.FC = () => {
   const [roomCodeInput, setRoomCodeInput] = useState('');
   const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
   const [pendingRoom, setPendingRoom] = useState<Room | null>(null);
+  const [joinAsSpectator, setJoinAsSpectator] = useState(false);
+  const [hostSettings, setHostSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  const [customWordsText, setCustomWordsText] = useState('');
+  const [customWordMode, setCustomWordMode] = useState<CustomWordMode>('MIX');
   
   // Avatar Customizer State
   const [avatarConfig, setAvatarConfig] = useState<AvatarConfig>({
@@ -55,6 +95,9 @@ const App: React.FC = () => {
 
   // Game State
   const [guessInput, setGuessInput] = useState('');
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [profileNotice, setProfileNotice] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [brushColor, setBrushColor] = useState(COLORS[0]);
   const myPlayerId = useRef(getOrCreatePlayerId());
 
@@ -74,6 +117,27 @@ const App: React.FC = () => {
     }
   }, [gameState?.phase]);
 
+  // Start from the saved profile's name and avatar
+  useEffect(() => {
+    if (!profile) return;
+    setPlayerName(profile.name);
+    setAvatarConfig(profile.avatar);
+  }, [profile?.id]);
+
+  // Stats change during games, so fetch them fresh whenever the profile screen opens
+  useEffect(() => {
+    if (phase === GamePhase.PROFILE) {
+      refreshProfile();
+    }
+  }, [phase]);
+
+  // Throttle notices fade after a few seconds
+  useEffect(() => {
+    if (!chatError) return;
+    const timeout = window.setTimeout(() => setChatError(null), 4000);
+    return () => window.clearTimeout(timeout);
+  }, [chatError]);
+
   // Load public rooms on lobby browser
   useEffect(() => {
     if (phase === GamePhase.LOBBY_BROWSER) {
@@ -101,16 +165,24 @@ const App: React.FC = () => {
     setPhase(GamePhase.HOST_SETUP);
   };
 
+  const enterProfile = () => {
+    setProfileNotice(null);
+    setPhase(GamePhase.PROFILE);
+  };
+
   // --- Room Actions ---
-  const handleCreateRoom = async (name: string, isPrivate: boolean, password?: string) => {
-    const room = await socketCreateRoom(name, isPrivate, password);
+  const handleCreateRoom = async (name: string, isPrivate: boolean, password?: string, settings?: RoomSettings, customWordsText?: string) => {
+    const words = parseCustomWords(customWordsText || '');
+    const customWords = words.length > 0 ? { mode: customWordMode, words } : null;
+    const room = await socketCreateRoom(name, isPrivate, password, settings, customWords);
     if (room) {
       setPendingRoom(room);
       setPhase(GamePhase.LOBBY_WAITING);
     }
   };
 
-  const handleJoinRoom = async (roomCode: string, password?: string) => {
+  const handleJoinRoom = async (roomCode: string, password?: string, spectate = false) => {
+    setJoinAsSpectator(spectate);
     // First check if room exists
     setPendingRoom({ id: roomCode, name: 'Loading...', isPrivate: false, playerCount: 0, maxPlayers: 8, status: 'WAITING' });
     setPhase(GamePhase.LOBBY_WAITING);
@@ -119,6 +191,9 @@ const App: React.FC = () => {
   const handleEnterRoom = async () => {
     if (!playerName || !pendingRoom) return;
     
+    // Keep the profile in step with the name and avatar we play as
+    await saveProfile(playerName, avatarConfig);
+    
     const player: Player = {
       id: myPlayerId.current,
       name: playerName,
@@ -128,26 +203,41 @@ const App: React.FC = () => {
       hasGuessedCorrectly: false
     };
     
-    const success = await socketJoinRoom(pendingRoom.id, roomPass || null, player);
+    const success = await socketJoinRoom(pendingRoom.id, roomPass || null, player, joinAsSpectator);
     if (success) {
-      setPhase(GamePhase.ROOM_LOBBY);
+      // Joining a game in progress already switched to its phase via room-updated
+      setPhase(prev => prev === GamePhase.LOBBY_WAITING ? GamePhase.ROOM_LOBBY : prev);
     } else {
       setPendingRoom(null);
       setPhase(GamePhase.MENU);
     }
   };
 
+  const handleSaveProfile = async () => {
+    const saved = await saveProfile(playerName, avatarConfig);
+    setProfileNotice(saved ? 'Profile saved!' : 'Could not save your profile');
+  };
+
   const handleStartGame = async () => {
     await socketStartGame();
   };
 
-  const handleWordSelection = async (word: { word: string; category: 'ACTION' | 'THING' | 'PLACE' }) => {
+  const handleWordSelection = async (word: WordOption) => {
     await socketSelectWord(word);
   };
 
   const handleSubmitGuess = async () => {
     if (!guessInput) return;
-    await submitGuess(guessInput);
+    const result = isSpectator ? await sendChatMessage(guessInput) : await submitGuess(guessInput);
+    
+    // Keep the text so it can be resent once the limit passes
+    if (!result.success) {
+      const wait = result.retryAfter ? ` (try again in ${Math.ceil(result.retryAfter / 1000)}s)` : '';
+      setChatError(`${result.error || 'Message not sent'}${wait}`);
+      return;
+    }
+    
+    setChatError(null);
     setGuessInput('');
   };
 
@@ -155,33 +245,75 @@ const App: React.FC = () => {
     socketRestartGame();
   };
 
-  // --- Helpers ---
-  const getMaskedWord = (word: string) => {
-    if (!word || !gameState) return '';
-    const elapsed = TURN_DURATION_SECONDS - gameState.timeLeft;
-    const indicesToReveal: number[] = [];
-    const len = word.length;
-
-    if (elapsed >= 30) indicesToReveal.push(0);
-    if (elapsed >= 60 && len >= 4) {
-      indicesToReveal.push(Math.floor(len / 2));
+  // Fetch this game's history record and download it
+  const handleExportResults = async (format: 'json' | 'csv') => {
+    if (!gameState?.gameId) return;
+    setExportError(null);
+    const record = await getGameRecord(gameState.gameId);
+    if (!record) {
+      setExportError('Could not load the results');
+      return;
     }
-
-    return word.split('').map((char, i) => {
-      if (!/[a-zA-Z0-9]/.test(char)) return char;
-      if (indicesToReveal.includes(i)) return char;
-      return '_';
-    }).join(' ');
+    if (format === 'json') downloadResultsJson(record);
+    else downloadResultsCsv(record);
   };
 
+  // --- Helpers ---
+  // Space out the server-provided mask so each letter slot is visible
+  const formatMaskedWord = (maskedWord: string) => maskedWord.split('').join(' ');
+
+  // Spell out how a score was computed, e.g. "500 base - 100 for 1 earlier guesser"
+  const formatPointsParts = (parts: PointsPart[]) => parts
+    .map((part, i) => i === 0 ? `${part.points} ${part.label}` : `${part.points < 0 ? '-' : '+'} ${Math.abs(part.points)} ${part.label}`)
+    .join(' ');
+
   // Check if current user is the drawer
   const isMyTurn = gameState && players.length > 0 && 
-    players[gameState.currentPlayerIndex]?.id === myPlayerId.current;
+    gameState.drawerId === myPlayerId.current;
+
+  // Check if current user is the room host
+  const isHost = currentRoom?.hostId === myPlayerId.current;
+
+  // Teams in play (0 when team mode is off)
+  const teamCount = getTeamCount(currentRoom?.settings);
+
+  // Check if current user is only watching
+  const isSpectator = spectators.some(s => s.id === myPlayerId.current);
+
+  // Players can vote-kick only while the host is away (and the room allows it)
+  const isHostPresent = players.some(p => p.id === currentRoom?.hostId && p.isConnected !== false);
+  const canStartVoteKick = !isHost && !isSpectator && !isHostPresent && !voteKick && currentRoom?.settings?.voteKick === 'ON';
+  const canVoteOnKick = !!voteKick && !isSpectator && voteKick.targetId !== myPlayerId.current;
+
+  const renderPlayerActions = (p: Player, className = '') => p.id !== myPlayerId.current && (
+    <PlayerModerationActions
+      name={p.name}
+      canModerate={isHost}
+      canMakeHost={p.type !== PlayerType.BOT}
+      canVoteKick={canStartVoteKick && p.type !== PlayerType.BOT}
+      onKick={() => kickPlayer(p.id)}
+      onBan={() => kickPlayer(p.id, true)}
+      onMakeHost={() => transferHost(p.id)}
+      onVoteKick={() => startVoteKick(p.id)}
+      className={className}
+    />
+  );
+
+  const renderVoteKickBanner = () => voteKick && (
+    <VoteKickBanner voteKick={voteKick} canVote={canVoteOnKick} onVote={castVoteKick} />
+  );
 
   // Check if current user has guessed
   const myPlayer = players.find(p => p.id === myPlayerId.current);
   const hasGuessed = myPlayer?.hasGuessedCorrectly || false;
 
+  // While the word is being drawn, the drawer's chat only reaches the players who guessed it
+  const chatsWithGuessed = hasGuessed || Boolean(isMyTurn && gameState?.phase === GamePhase.DRAWING);
+
+  const renderPausedOverlay = () => gameState?.paused && (
+    <PausedOverlay isHost={isHost} onResume={resumeGame} />
+  );
+
   // --- Connection Status ---
   const renderConnectionStatus = () => (
     <div className={`fixed top-2 right-2 z-50 flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold ${
@@ -194,6 +326,36 @@ const App: React.FC = () => {
 
   // --- Render Helpers ---
 
+  const leaveKickScreen = () => {
+    dismissKick();
+    setPendingRoom(null);
+    setPhase(GamePhase.MENU);
+  };
+
+  const renderKicked = () => (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 animate-fade-in">
+      <div className="bg-white text-violet-900 p-6 md:p-10 rounded-3xl shadow-2xl border-4 border-red-300 max-w-md w-full text-center space-y-4">
+        <div className="flex justify-center">
+          <div className="bg-red-100 text-red-500 rounded-full p-4">
+            <UserX size={40} />
+          </div>
+        </div>
+        <h1 className="text-2xl md:text-3xl font-black">{kickInfo?.banned ? 'You were banned' : 'You were removed'}</h1>
+        <p className="text-violet-500 font-bold">
+          from <span className="text-violet-900">{kickInfo?.roomName}</span>
+        </p>
+        <p className="bg-red-50 border-2 border-red-200 text-red-700 rounded-xl px-4 py-3 font-bold">{kickInfo?.reason}</p>
+        {kickInfo?.banned && <p className="text-xs md:text-sm text-violet-400 font-bold">You can't rejoin this room.</p>}
+        <button
+          onClick={leaveKickScreen}
+          className="w-full py-3 bg-violet-600 hover:bg-violet-700 text-white rounded-xl font-bold text-lg transition-colors"
+        >
+          Back to Menu
+        </button>
+      </div>
+    </div>
+  );
+
   const renderMainMenu = () => (
     <div className="flex flex-col items-center justify-center min-h-screen p-4 text-center space-y-6 md:space-y-8 animate-fade-in bg-gradient-to-br from-violet-900 via-indigo-900 to-purple-900 overflow-y-auto scroll-container">
       {renderConnectionStatus()}
@@ -219,6 +381,13 @@ const App: React.FC = () => {
           <Shield size={22} /> Host Private Game
         </button>
 
+        <button 
+          onClick={enterProfile}
+          className="py-2 md:py-3 px-6 md:px-8 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-bold text-base md:text-lg transition-all flex items-center justify-center gap-2"
+        >
+          <UserCircle size={20} /> {profile ? profile.name : 'My Profile'}
+        </button>
+
         {/* Direct Join with Room Code */}
         <div className="mt-2 md:mt-4 p-3 md:p-4 bg-white/10 rounded-2xl backdrop-blur-sm">
           <p className="text-violet-200 text-sm mb-2">Have a room code?</p>
@@ -278,8 +447,23 @@ const App: React.FC = () => {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-bold text-violet-600 mb-2">Game Settings</label>
+            <RoomSettingsPanel settings={hostSettings} onChange={setHostSettings} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-violet-600 mb-2">Custom Words (Optional)</label>
+            <CustomWordsInput
+              text={customWordsText}
+              mode={customWordMode}
+              onTextChange={setCustomWordsText}
+              onModeChange={setCustomWordMode}
+            />
+          </div>
+
           <button 
-            onClick={() => roomName && handleCreateRoom(roomName, true, roomPass)}
+            onClick={() => roomName && handleCreateRoom(roomName, true, roomPass, hostSettings, customWordsText)}
             disabled={!roomName || !isConnected}
             className="w-full py-3 md:py-4 bg-violet-600 text-white font-bold rounded-xl mt-4 disabled:opacity-50 text-base md:text-lg shadow-lg hover:bg-violet-700 transition-colors"
           >
@@ -354,6 +538,16 @@ const App: React.FC = () => {
                     <div className="text-lg md:text-2xl font-bold font-mono text-violet-800">{room.playerCount}/{room.maxPlayers}</div>
                     <div className="text-[10px] uppercase tracking-wider text-violet-400 font-bold">Players</div>
                   </div>
+                  <div className="text-right hidden sm:block">
+                    <div className="text-lg md:text-2xl font-bold font-mono text-violet-800">{room.spectatorCount ?? 0}</div>
+                    <div className="text-[10px] uppercase tracking-wider text-violet-400 font-bold">Watching</div>
+                  </div>
+                  <button 
+                    onClick={() => handleJoinRoom(room.id, undefined, true)}
+                    className="px-3 md:px-4 py-2 bg-violet-100 hover:bg-violet-200 text-violet-700 rounded-xl font-bold transition-colors shadow-md text-sm md:text-base flex items-center gap-1"
+                  >
+                    <Eye size={16} /> Watch
+                  </button>
                   <button 
                     onClick={() => handleJoinRoom(room.id)}
                     className="px-4 md:px-6 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-xl font-bold transition-colors shadow-md text-sm md:text-base"
@@ -369,29 +563,92 @@ const App: React.FC = () => {
     </div>
   );
 
-  const renderLobbyWaiting = () => (
-    <div className="flex flex-col items-center md:justify-center min-h-screen p-3 md:p-4 animate-fade-in overflow-y-auto scroll-container">
-      {renderConnectionStatus()}
-      <div className="bg-white border-4 border-violet-300 p-4 md:p-8 rounded-3xl w-full max-w-4xl shadow-2xl flex flex-col md:flex-row gap-6 md:gap-12 my-4 md:my-auto text-violet-900">
-        {/* Avatar Customizer */}
-        <div className="flex-1 space-y-4 md:space-y-6">
-          <h2 className="text-2xl md:text-3xl font-bold text-violet-800">Customize Avatar</h2>
-          <div className="flex justify-center py-4 md:py-8 bg-violet-50 rounded-2xl border-2 border-violet-100">
-            <Avatar config={avatarConfig} size="lg" className="md:scale-125" />
-          </div>
-          <div className="space-y-3 md:space-y-4">
-            <div className="grid grid-cols-3 gap-2">
-              {AVATAR_SHAPES.map(shape => (
-                <button key={shape} onClick={() => setAvatarConfig({...avatarConfig, shape})} className={`py-2 text-sm md:text-base rounded-lg border-2 font-bold capitalize transition-all ${avatarConfig.shape === shape ? 'border-violet-600 bg-violet-100 text-violet-900' : 'border-violet-100 text-violet-400 hover:border-violet-200'}`}>{shape}</button>
-              ))}
+  const renderAvatarCustomizer = () => (
+    <div className="flex-1 space-y-4 md:space-y-6">
+      <h2 className="text-2xl md:text-3xl font-bold text-violet-800">Customize Avatar</h2>
+      <div className="flex justify-center py-4 md:py-8 bg-violet-50 rounded-2xl border-2 border-violet-100">
+        <Avatar config={avatarConfig} size="lg" className="md:scale-125" />
+      </div>
+      <div className="space-y-3 md:space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          {AVATAR_SHAPES.map(shape => (
+            <button key={shape} onClick={() => setAvatarConfig({...avatarConfig, shape})} className={`py-2 text-sm md:text-base rounded-lg border-2 font-bold capitalize transition-all ${avatarConfig.shape === shape ? 'border-violet-600 bg-violet-100 text-violet-900' : 'border-violet-100 text-violet-400 hover:border-violet-200'}`}>{shape}</button>
+          ))}
+        </div>
+        <div className="flex gap-2 flex-wrap justify-center">
+          {COLORS.slice(0, 5).map(color => (
+            <button key={color} onClick={() => setAvatarConfig({...avatarConfig, color})} className={`w-9 h-9 md:w-10 md:h-10 rounded-full border-4 transition-transform hover:scale-110 ${avatarConfig.color === color ? 'border-violet-900' : 'border-transparent'}`} style={{backgroundColor: color}}/>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderProfile = () => {
+    const stats = profile?.stats;
+    const statTiles = [
+      { label: 'Games Played', value: stats ? stats.gamesPlayed : 0 },
+      { label: 'Wins', value: stats ? stats.wins : 0 },
+      { label: 'Words Guessed', value: stats ? stats.wordsGuessed : 0 },
+      { label: 'Avg. Guess Time', value: stats?.averageGuessTimeMs != null ? `${(stats.averageGuessTimeMs / 1000).toFixed(1)}s` : '-' },
+      { label: 'Drawings Guessed', value: stats ? stats.drawingsGuessed : 0 },
+    ];
+
+    return (
+      <div className="flex flex-col items-center md:justify-center min-h-screen p-3 md:p-4 animate-fade-in overflow-y-auto scroll-container">
+        {renderConnectionStatus()}
+        <div className="bg-white border-4 border-violet-300 p-4 md:p-8 rounded-3xl w-full max-w-4xl shadow-2xl flex flex-col md:flex-row gap-6 md:gap-12 my-4 md:my-auto text-violet-900">
+          {renderAvatarCustomizer()}
+          <div className="flex-1 flex flex-col justify-center space-y-4 md:space-y-6 border-t md:border-t-0 md:border-l border-violet-100 pt-4 md:pt-0 md:pl-12">
+            <div>
+              <label className="block text-sm font-bold text-violet-600 mb-2">Display Name</label>
+              <input
+                type="text"
+                value={playerName}
+                onChange={(e) => setPlayerName(e.target.value)}
+                placeholder="Your Name"
+                className="w-full px-4 py-3 bg-violet-50 border-2 border-violet-200 rounded-xl text-violet-900 focus:outline-none focus:border-violet-600 font-bold text-base md:text-lg"
+                maxLength={12}
+              />
             </div>
-            <div className="flex gap-2 flex-wrap justify-center">
-              {COLORS.slice(0, 5).map(color => (
-                <button key={color} onClick={() => setAvatarConfig({...avatarConfig, color})} className={`w-9 h-9 md:w-10 md:h-10 rounded-full border-4 transition-transform hover:scale-110 ${avatarConfig.color === color ? 'border-violet-900' : 'border-transparent'}`} style={{backgroundColor: color}}/>
+
+            <div className="grid grid-cols-2 gap-2">
+              {statTiles.map(tile => (
+                <div key={tile.label} className="bg-violet-50 border-2 border-violet-100 rounded-xl p-2 md:p-3 text-center last:col-span-2">
+                  <div className="text-xl md:text-2xl font-black text-violet-800">{tile.value}</div>
+                  <div className="text-xs font-bold uppercase tracking-wide text-violet-400">{tile.label}</div>
+                </div>
               ))}
             </div>
+            {!profile && (
+              <p className="text-xs text-violet-400 text-center">Save a name to start keeping stats on this device.</p>
+            )}
+
+            <button
+              onClick={handleSaveProfile}
+              disabled={!playerName.trim() || !isConnected}
+              className="w-full py-3 md:py-4 bg-green-500 hover:bg-green-600 text-white rounded-xl font-bold text-lg md:text-xl shadow-lg transition-colors transform active:scale-95 disabled:opacity-50"
+            >
+              Save Profile
+            </button>
+            {profileNotice && <p className="text-sm font-bold text-violet-600 text-center">{profileNotice}</p>}
+            <button
+              onClick={() => setPhase(GamePhase.MENU)}
+              className="w-full py-2 text-violet-500 font-bold hover:text-violet-700"
+            >
+              Back
+            </button>
           </div>
         </div>
+      </div>
+    );
+  };
+
+  const renderLobbyWaiting = () => (
+    <div className="flex flex-col items-center md:justify-center min-h-screen p-3 md:p-4 animate-fade-in overflow-y-auto scroll-container">
+      {renderConnectionStatus()}
+      <div className="bg-white border-4 border-violet-300 p-4 md:p-8 rounded-3xl w-full max-w-4xl shadow-2xl flex flex-col md:flex-row gap-6 md:gap-12 my-4 md:my-auto text-violet-900">
+        {renderAvatarCustomizer()}
         {/* Join Form */}
         <div className="flex-1 flex flex-col justify-center space-y-4 md:space-y-6 border-t md:border-t-0 md:border-l border-violet-100 pt-4 md:pt-0 md:pl-12">
           <div>
@@ -416,7 +673,7 @@ const App: React.FC = () => {
             disabled={!playerName || !isConnected}
             className="w-full py-3 md:py-4 bg-green-500 hover:bg-green-600 text-white rounded-xl font-bold text-lg md:text-xl shadow-lg transition-colors transform active:scale-95 disabled:opacity-50"
           >
-            Enter Room
+            {joinAsSpectator ? 'Start Watching' : 'Enter Room'}
           </button>
           <button
             onClick={goToMainMenu}
@@ -429,6 +686,44 @@ const App: React.FC = () => {
     </div>
   );
 
+  const renderLobbyPlayer = (p: Player) => (
+    <div key={p.id} className={`relative bg-violet-50 p-2 md:p-4 rounded-2xl flex flex-col items-center gap-2 md:gap-3 animate-scale-in border-2 shadow-sm ${p.id === myPlayerId.current ? 'border-violet-400' : 'border-violet-100'} ${p.isConnected === false ? 'opacity-50' : ''}`}>
+      {isHost && p.type === PlayerType.BOT && (
+        <button
+          onClick={() => removeBot(p.id)}
+          className="absolute top-1 right-1 p-1 rounded-full text-violet-300 hover:text-red-500 hover:bg-red-50"
+          title="Remove bot"
+        >
+          <X size={14} />
+        </button>
+      )}
+      <Avatar config={p.avatar} size="md" className="md:scale-110" />
+      <span className="font-bold text-sm md:text-lg truncate w-full text-center text-violet-900">
+        {p.id === currentRoom?.hostId && <Crown size={14} className="inline text-yellow-500 mr-1 -mt-1" />}
+        {p.name} {p.id === myPlayerId.current && '(You)'}
+      </span>
+      {p.type !== PlayerType.BOT && renderPlayerActions(p)}
+      {p.type === PlayerType.BOT && (
+        <span className="flex items-center gap-1 text-[10px] md:text-xs font-bold text-violet-400"><Bot size={12} /> Bot</span>
+      )}
+      {p.isConnected === false && (
+        <span className="flex items-center gap-1 text-[10px] md:text-xs font-bold text-red-500"><WifiOff size={12} /> Reconnecting...</span>
+      )}
+      {isHost && teamCount > 0 && (
+        <div className="flex gap-1" title="Move to team">
+          {TEAMS.slice(0, teamCount).map((team, teamId) => teamId !== p.teamId && (
+            <button
+              key={team.name}
+              onClick={() => setTeam(p.id, teamId)}
+              className={`w-4 h-4 rounded-full border-2 border-white shadow ${team.dotClassName} hover:scale-125 transition-transform`}
+              title={`Move to ${team.name}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   const renderRoomLobby = () => (
     <div className="flex flex-col min-h-screen p-3 md:p-8 animate-fade-in max-w-4xl mx-auto overflow-y-auto scroll-container">
       {renderConnectionStatus()}
@@ -440,37 +735,112 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {voteKick && <div className="mb-4 flex-shrink-0">{renderVoteKickBanner()}</div>}
+
       <div className="w-full bg-white rounded-3xl border-4 border-violet-300 p-3 md:p-6 mb-4 flex flex-col flex-1 shadow-2xl">
         <div className="flex justify-between items-center mb-4 md:mb-6 flex-shrink-0">
-          <h3 className="text-lg md:text-2xl font-bold text-violet-900">Players ({players.length}/8)</h3>
-        </div>
-        
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-4 overflow-y-auto pr-2 pb-2 scroll-container">
-          {players.map(p => (
-            <div key={p.id} className={`bg-violet-50 p-2 md:p-4 rounded-2xl flex flex-col items-center gap-2 md:gap-3 animate-scale-in border-2 shadow-sm ${p.id === myPlayerId.current ? 'border-violet-400' : 'border-violet-100'}`}>
-              <Avatar config={p.avatar} size="md" className="md:scale-110" />
-              <span className="font-bold text-sm md:text-lg truncate w-full text-center text-violet-900">
-                {p.name} {p.id === myPlayerId.current && '(You)'}
-              </span>
-            </div>
-          ))}
-          {Array.from({ length: Math.max(0, 4 - players.length) }).map((_, i) => (
-            <div key={i} className="border-2 border-dashed border-violet-200 rounded-2xl flex items-center justify-center min-h-[80px] md:min-h-[120px]">
-              <span className="text-violet-300 font-bold text-sm md:text-base">Empty</span>
+          <h3 className="text-lg md:text-2xl font-bold text-violet-900">Players ({players.length}/{currentRoom?.maxPlayers ?? 8})</h3>
+          {isHost && (
+            <div className="flex gap-2">
+              {teamCount > 0 && (
+                <button
+                  onClick={() => balanceTeams()}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-violet-100 text-violet-700 font-bold text-xs md:text-sm hover:bg-violet-200"
+                >
+                  <Shuffle size={16} /> Balance Teams
+                </button>
+              )}
+              <button
+                onClick={() => addBot()}
+                disabled={players.length >= (currentRoom?.maxPlayers ?? 8)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-violet-100 text-violet-700 font-bold text-xs md:text-sm hover:bg-violet-200 disabled:opacity-50"
+              >
+                <Bot size={16} /> Add Bot
+              </button>
             </div>
-          ))}
+          )}
         </div>
+        
+        {teamCount > 0 ? (
+          <div className="space-y-3 overflow-y-auto pr-2 pb-2 scroll-container">
+            {groupByTeam(players, teamCount).map(team => (
+              <div key={team.teamId} className={`rounded-2xl border-2 p-2 md:p-3 ${TEAMS[team.teamId].className}`}>
+                <h4 className="font-black text-sm md:text-base mb-2">{TEAMS[team.teamId].name} Team ({team.players.length})</h4>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-4">
+                  {team.players.map(renderLobbyPlayer)}
+                  {team.players.length === 0 && <span className="text-xs md:text-sm opacity-60 font-bold">No players yet</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-4 overflow-y-auto pr-2 pb-2 scroll-container">
+            {players.map(renderLobbyPlayer)}
+            {Array.from({ length: Math.max(0, 4 - players.length) }).map((_, i) => (
+              <div key={i} className="border-2 border-dashed border-violet-200 rounded-2xl flex items-center justify-center min-h-[80px] md:min-h-[120px]">
+                <span className="text-violet-300 font-bold text-sm md:text-base">Empty</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {spectators.length > 0 && (
+        <div className="w-full bg-white rounded-3xl border-4 border-violet-300 p-3 md:p-6 mb-4 shadow-2xl flex-shrink-0">
+          <h3 className="text-lg md:text-2xl font-bold text-violet-900 mb-3 flex items-center gap-2"><Eye size={20} className="text-violet-500" /> Watching ({spectators.length})</h3>
+          <div className="flex flex-wrap gap-2">
+            {spectators.map(s => (
+              <div key={s.id} className={`flex items-center gap-2 bg-violet-50 border-2 px-2 py-1 rounded-xl ${s.id === myPlayerId.current ? 'border-violet-400' : 'border-violet-100'}`}>
+                <Avatar config={s.avatar} size="sm" />
+                <span className="font-bold text-sm text-violet-800">{s.name} {s.id === myPlayerId.current && '(You)'}</span>
+                {isHost && (
+                  <PlayerModerationActions
+                    name={s.name}
+                    canModerate
+                    canMakeHost={false}
+                    canVoteKick={false}
+                    onKick={() => kickPlayer(s.id)}
+                    onBan={() => kickPlayer(s.id, true)}
+                    onMakeHost={() => {}}
+                    onVoteKick={() => {}}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {currentRoom?.settings && (
+        <div className="w-full bg-white rounded-3xl border-4 border-violet-300 p-3 md:p-6 mb-4 shadow-2xl flex-shrink-0">
+          <div className="flex justify-between items-center mb-3 md:mb-4">
+            <h3 className="text-lg md:text-2xl font-bold text-violet-900">Settings</h3>
+            {!isHost && <span className="text-xs md:text-sm font-bold text-violet-400">Only the host can change these</span>}
+          </div>
+          <RoomSettingsPanel settings={currentRoom.settings} onChange={updateSettings} disabled={!isHost} />
+          {currentRoom.customWords && (
+            <p className="mt-3 text-xs md:text-sm font-bold text-violet-500">
+              {currentRoom.customWords.count} custom words • {currentRoom.customWords.mode === 'CUSTOM_ONLY' ? 'custom words only' : 'mixed with defaults'}
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="flex-shrink-0 flex flex-col items-center w-full gap-2 pb-4">
-        <button 
-          onClick={handleStartGame}
-          className="w-full max-w-md py-3 md:py-4 bg-white text-violet-900 font-bold rounded-2xl text-xl md:text-2xl shadow-xl hover:scale-105 transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:scale-100"
-          disabled={players.length < 2}
-        >
-          <Play size={24} fill="currentColor" className="text-violet-600"/> Start Game
-        </button>
-        {players.length < 2 && <p className="text-violet-200 text-xs md:text-sm font-medium bg-black/20 px-3 py-1 rounded-full">Need at least 2 players to start.</p>}
+        {isSpectator ? (
+          <p className="text-violet-100 text-sm md:text-base font-bold bg-black/20 px-4 py-2 rounded-full flex items-center gap-2"><Eye size={16} /> You're watching - the game will appear when it starts.</p>
+        ) : (
+          <>
+            <button 
+              onClick={handleStartGame}
+              className="w-full max-w-md py-3 md:py-4 bg-white text-violet-900 font-bold rounded-2xl text-xl md:text-2xl shadow-xl hover:scale-105 transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:scale-100"
+              disabled={players.length < 2}
+            >
+              <Play size={24} fill="currentColor" className="text-violet-600"/> Start Game
+            </button>
+            {players.length < 2 && <p className="text-violet-200 text-xs md:text-sm font-medium bg-black/20 px-3 py-1 rounded-full">Need at least 2 players to start.</p>}
+          </>
+        )}
         <button
           onClick={goToMainMenu}
           className="mt-2 text-violet-200 hover:text-white font-bold text-sm md:text-base"
@@ -481,9 +851,42 @@ const App: React.FC = () => {
     </div>
   );
 
+  const renderHeaderPlayer = (p: Player, currentDrawerId?: string) => (
+    <div 
+      key={p.id} 
+      className={`flex flex-col items-center justify-center p-1 md:p-1.5 rounded-lg md:rounded-xl shrink-0 transition-all border-2 ${
+        p.id === currentDrawerId 
+          ? 'bg-yellow-50 border-yellow-400 scale-105' 
+          : p.hasGuessedCorrectly && p.id !== currentDrawerId
+            ? 'bg-green-50 border-green-400'
+            : 'bg-violet-50 border-transparent'
+      } ${p.isConnected === false ? 'opacity-50' : ''}`}
+      style={{ minWidth: '40px' }}
+      title={p.isConnected === false ? `${p.name} is reconnecting...` : undefined}
+    >
+      <div className="relative">
+        <Avatar config={p.avatar} size="sm" className="w-6 h-6 md:w-8 md:h-8 lg:w-10 lg:h-10 text-[8px] md:text-xs" />
+        {p.isConnected === false && (
+          <div className="absolute -top-0.5 -left-0.5 md:-top-1 md:-left-1 bg-red-500 text-white rounded-full p-0.5 border border-white" title="Disconnected">
+            <WifiOff size={8} />
+          </div>
+        )}
+        {p.id === currentDrawerId && (
+          <div className="absolute -bottom-0.5 -right-0.5 md:-bottom-1 md:-right-1 bg-yellow-400 text-violet-900 rounded-full p-0.5 md:p-1 border border-white md:border-2 shadow-sm" title="Drawing">
+            <Pencil size={8} />
+          </div>
+        )}
+      </div>
+      <span className={`text-[8px] md:text-[10px] lg:text-xs font-bold truncate max-w-[40px] md:max-w-[60px] ${p.id === currentDrawerId ? 'text-yellow-700' : 'text-violet-700'}`}>
+        {p.name}
+      </span>
+      <span className="text-[8px] md:text-[10px] font-mono leading-none text-violet-400 font-bold">{p.score}</span>
+    </div>
+  );
+
   const renderHeader = () => {
     if (!gameState || players.length === 0) return null;
-    const currentDrawerId = players[gameState.currentPlayerIndex]?.id;
+    const currentDrawerId = gameState.drawerId;
 
     return (
       <div className="fixed top-0 left-0 right-0 h-16 md:h-20 bg-white/95 backdrop-blur-md border-b-2 md:border-b-4 border-violet-200 z-50 flex items-center justify-between px-2 lg:px-4 shadow-sm gap-1 md:gap-2">
@@ -495,38 +898,43 @@ const App: React.FC = () => {
           >
             <Home size={18} />
           </button>
+          {isHost && PAUSABLE_PHASES.includes(gameState.phase) && (
+            <button
+              onClick={pauseGame}
+              className="p-1.5 md:p-2 rounded-lg hover:bg-violet-100 text-violet-600 transition-colors"
+              title="Pause Game"
+            >
+              <Pause size={18} />
+            </button>
+          )}
+          {isHost && (gameState.phase === GamePhase.WORD_SELECTION || gameState.phase === GamePhase.DRAWING) && (
+            <button
+              onClick={skipTurn}
+              className="p-1.5 md:p-2 rounded-lg hover:bg-violet-100 text-violet-600 transition-colors"
+              title="Skip Turn"
+            >
+              <SkipForward size={18} />
+            </button>
+          )}
           <div className="flex flex-col min-w-[50px] md:min-w-[60px]">
             <span className="font-bold text-violet-800 text-xs md:text-sm lg:text-lg whitespace-nowrap">R {gameState.currentRound}/{gameState.totalRounds}</span>
+            {spectators.length > 0 && (
+              <span className="flex items-center gap-1 text-[10px] md:text-xs font-bold text-violet-400" title="Spectators">
+                <Eye size={12} /> {spectators.length}
+              </span>
+            )}
           </div>
         </div>
         
         <div className="flex-1 overflow-x-auto flex items-center gap-1 md:gap-2 px-1 md:px-2 scrollbar-hide mask-fade-sides justify-center scroll-container">
-          {players.map(p => (
-            <div 
-              key={p.id} 
-              className={`flex flex-col items-center justify-center p-1 md:p-1.5 rounded-lg md:rounded-xl shrink-0 transition-all border-2 ${
-                p.id === currentDrawerId 
-                  ? 'bg-yellow-50 border-yellow-400 scale-105' 
-                  : p.hasGuessedCorrectly && p.id !== currentDrawerId
-                    ? 'bg-green-50 border-green-400'
-                    : 'bg-violet-50 border-transparent'
-              }`}
-              style={{ minWidth: '40px' }}
-            >
-              <div className="relative">
-                <Avatar config={p.avatar} size="sm" className="w-6 h-6 md:w-8 md:h-8 lg:w-10 lg:h-10 text-[8px] md:text-xs" />
-                {p.id === currentDrawerId && (
-                  <div className="absolute -bottom-0.5 -right-0.5 md:-bottom-1 md:-right-1 bg-yellow-400 text-violet-900 rounded-full p-0.5 md:p-1 border border-white md:border-2 shadow-sm" title="Drawing">
-                    <Pencil size={8} />
-                  </div>
-                )}
-              </div>
-              <span className={`text-[8px] md:text-[10px] lg:text-xs font-bold truncate max-w-[40px] md:max-w-[60px] ${p.id === currentDrawerId ? 'text-yellow-700' : 'text-violet-700'}`}>
-                {p.name}
-              </span>
-              <span className="text-[8px] md:text-[10px] font-mono leading-none text-violet-400 font-bold">{p.score}</span>
-            </div>
-          ))}
+          {teamCount > 0
+            ? groupByTeam(players, teamCount).filter(team => team.players.length > 0).map(team => (
+                <div key={team.teamId} className={`flex items-center gap-1 p-0.5 md:p-1 rounded-xl border-2 shrink-0 ${TEAMS[team.teamId].className}`} title={`${TEAMS[team.teamId].name} Team`}>
+                  <span className="text-[9px] md:text-xs font-black font-mono px-0.5 md:px-1">{team.score}</span>
+                  {team.players.map(p => renderHeaderPlayer(p, currentDrawerId))}
+                </div>
+              ))
+            : players.map(p => renderHeaderPlayer(p, currentDrawerId))}
         </div>
 
         <div className={`flex items-center gap-1 md:gap-2 px-2 md:px-4 py-1 md:py-2 rounded-full border-2 shrink-0 transition-colors ${gameState.timeLeft < 10 ? 'bg-red-100 border-red-400 text-red-600 animate-pulse' : 'bg-violet-100 border-violet-200 text-violet-800'}`}>
@@ -542,7 +950,12 @@ const App: React.FC = () => {
   const renderWordSelection = () => (
     <div className="flex flex-col items-center justify-center min-h-screen p-3 md:p-4 space-y-4 md:space-y-6 animate-slide-up pt-20 md:pt-24 overflow-y-auto scroll-container">
       <h2 className="text-2xl md:text-3xl font-bold text-white mb-2 md:mb-4 text-center drop-shadow-md">It's your turn to draw!</h2>
-      <p className="text-violet-100 bg-white/10 px-3 md:px-4 py-2 rounded-full backdrop-blur-sm text-sm md:text-base">Choose a word to draw:</p>
+      <p className="text-violet-100 bg-white/10 px-3 md:px-4 py-2 rounded-full backdrop-blur-sm text-sm md:text-base flex items-center gap-2">
+        Choose a word to draw:
+        <span className={`flex items-center gap-1 font-mono font-bold ${(gameState?.timeLeft ?? 0) <= 5 ? 'text-red-300 animate-pulse' : 'text-white'}`}>
+          <Clock size={14} /> {gameState?.timeLeft ?? 0}s
+        </span>
+      </p>
       
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4 w-full max-w-4xl px-3 md:px-4 pb-4">
         {wordOptions.map((opt) => (
@@ -558,25 +971,42 @@ const App: React.FC = () => {
           </button>
         ))}
       </div>
+
+      {(gameState?.rerollsLeft ?? 0) > 0 && (
+        <button
+          onClick={rerollWords}
+          className="flex items-center gap-2 bg-white/15 hover:bg-white/25 text-white font-bold px-4 py-2 rounded-full backdrop-blur-sm transition-all text-sm md:text-base"
+        >
+          <Shuffle size={16} /> New words ({gameState?.rerollsLeft} left)
+        </button>
+      )}
+      <p className="text-violet-200 text-xs md:text-sm">A random word is picked if time runs out</p>
     </div>
   );
 
   const renderTurnSummary = () => {
     if (!gameState || players.length === 0) return null;
-    const drawer = players[gameState.currentPlayerIndex];
+    const drawer = players.find(p => p.id === gameState.drawerId);
     const correctGuessers = players.filter(p => p.hasGuessedCorrectly && p.id !== drawer?.id);
+    const summary = gameState.turnSummary;
 
     return (
       <div className="flex flex-col items-center md:justify-center min-h-screen animate-fade-in p-3 md:p-4 pt-8 md:pt-20 overflow-y-auto scroll-container">
         <div className="bg-white text-violet-900 p-4 md:p-8 rounded-3xl shadow-2xl border-4 border-violet-300 max-w-2xl w-full text-center space-y-4 md:space-y-6 my-4 md:my-auto">
           <div className="space-y-1 md:space-y-2">
-            <h2 className="text-base md:text-xl text-violet-500 font-bold uppercase tracking-widest">The word was</h2>
-            <h1 className="text-2xl md:text-5xl font-black text-violet-900">{gameState.currentWord?.word}</h1>
+            {gameState.currentWord ? (
+              <>
+                <h2 className="text-base md:text-xl text-violet-500 font-bold uppercase tracking-widest">The word was</h2>
+                <h1 className="text-2xl md:text-5xl font-black text-violet-900">{gameState.currentWord.word}</h1>
+              </>
+            ) : (
+              <h1 className="text-2xl md:text-4xl font-black text-violet-900">Turn over before a word was picked</h1>
+            )}
           </div>
 
           <div className="w-full h-40 md:h-64 bg-white border-2 border-violet-100 rounded-xl overflow-hidden relative shadow-inner">
-            {gameState.canvasData ? (
-              <img src={gameState.canvasData} className="w-full h-full object-contain" alt="Drawing" />
+            {gameState.drawing.length > 0 ? (
+              <DrawingView drawing={gameState.drawing} className="w-full h-full" />
             ) : (
               <div className="flex items-center justify-center h-full text-violet-300">No Drawing</div>
             )}
@@ -586,32 +1016,47 @@ const App: React.FC = () => {
             <h3 className="text-base md:text-lg font-bold text-violet-700">Correct Guesses</h3>
             {correctGuessers.length > 0 ? (
               <div className="flex flex-wrap gap-2 md:gap-3 justify-center">
-                {correctGuessers.map(p => (
-                  <div key={p.id} className="bg-green-100 text-green-800 px-3 md:px-4 py-2 rounded-xl font-bold text-xs md:text-sm flex items-center gap-2 md:gap-3 border-2 border-green-200 shadow-sm">
-                    <Avatar config={p.avatar} size="sm" className="w-6 h-6 md:w-8 md:h-8 text-[8px] md:text-[10px]" />
-                    <div className="flex flex-col text-left">
-                      <span className="leading-none">{p.name}</span>
-                      <span className="text-[9px] md:text-[10px] text-green-600 font-black">Total: {p.score} pts</span>
+                {correctGuessers.map(p => {
+                  const guess = summary?.guessers.find(g => g.playerId === p.id);
+                  return (
+                    <div key={p.id} className="bg-green-100 text-green-800 px-3 md:px-4 py-2 rounded-xl font-bold text-xs md:text-sm flex items-center gap-2 md:gap-3 border-2 border-green-200 shadow-sm">
+                      <Avatar config={p.avatar} size="sm" className="w-6 h-6 md:w-8 md:h-8 text-[8px] md:text-[10px]" />
+                      <div className="flex flex-col text-left">
+                        <span className="leading-none">{p.name}{guess && <span className="text-green-600"> +{guess.points}</span>}</span>
+                        {guess && guess.breakdown.length > 1 && (
+                          <span className="text-[9px] md:text-[10px] text-green-600">{formatPointsParts(guess.breakdown)}</span>
+                        )}
+                        <span className="text-[9px] md:text-[10px] text-green-600 font-black">Total: {p.score} pts</span>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             ) : (
               <p className="text-violet-400 italic text-sm md:text-base">No one guessed it!</p>
             )}
+            {summary && drawer && (
+              <p className="text-xs md:text-sm text-violet-600 font-bold">
+                {drawer.name} (drawer): +{summary.drawerPoints}
+                {summary.drawerBreakdown.length > 0 && (
+                  <span className="font-normal text-violet-500"> ({formatPointsParts(summary.drawerBreakdown)})</span>
+                )}
+              </p>
+            )}
           </div>
 
           <div className="pt-3 md:pt-4 border-t-2 border-violet-100">
             <p className="text-violet-500 font-bold animate-pulse text-sm md:text-base">Next turn starting...</p>
           </div>
         </div>
+        {renderPausedOverlay()}
       </div>
     );
   };
 
   const renderGameScreen = () => {
     if (!gameState || players.length === 0) return null;
-    const currentPlayer = players[gameState.currentPlayerIndex];
+    const currentPlayer = players.find(p => p.id === gameState.drawerId);
     const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
 
     return (
@@ -637,11 +1082,17 @@ const App: React.FC = () => {
                     )}
                   </div>
                   <div className="flex flex-col min-w-0">
-                    <span className="text-sm font-bold truncate text-violet-900">{p.name}</span>
+                    <span className="text-sm font-bold truncate text-violet-900">
+                      {p.id === currentRoom?.hostId && <Crown size={12} className="inline text-yellow-500 mr-1 -mt-0.5" />}
+                      {p.name}
+                    </span>
                     {p.id === currentPlayer?.id && <span className="text-[10px] bg-yellow-100 text-yellow-700 px-1 rounded w-fit font-bold">DRAWING</span>}
                   </div>
                 </div>
-                <span className="font-bold text-violet-700 tabular-nums">{p.score}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {renderPlayerActions(p)}
+                  <span className="font-bold text-violet-700 tabular-nums">{p.score}</span>
+                </div>
               </div>
             ))}
           </div>
@@ -649,6 +1100,7 @@ const App: React.FC = () => {
 
         {/* Center: Canvas */}
         <div className="flex-1 flex flex-col min-h-0">
+          {voteKick && <div className="mb-2 md:mb-3">{renderVoteKickBanner()}</div>}
           <div className="mb-2 md:mb-3 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 bg-white p-2 md:p-3 rounded-xl md:rounded-2xl shadow-lg border-2 border-violet-200">
             <div className="flex items-center gap-2 md:gap-3">
               {isMyTurn ? (
@@ -667,12 +1119,12 @@ const App: React.FC = () => {
               )}
             </div>
             
-            {!isMyTurn && gameState.currentWord && (
+            {!isMyTurn && (gameState.currentWord || gameState.maskedWord) && (
               <div className="flex flex-col items-end">
                 <div className="font-mono text-base md:text-2xl font-bold tracking-[0.2em] md:tracking-[0.3em] text-violet-800 bg-violet-100 px-2 md:px-3 rounded-lg">
-                  {gameState.phase === GamePhase.TURN_END 
-                    ? gameState.currentWord.word 
-                    : getMaskedWord(gameState.currentWord.word)
+                  {gameState.currentWord
+                    ? gameState.currentWord.word
+                    : formatMaskedWord(gameState.maskedWord || '')
                   }
                 </div>
               </div>
@@ -682,22 +1134,23 @@ const App: React.FC = () => {
           <div className="flex-1 relative rounded-xl md:rounded-2xl overflow-hidden shadow-xl bg-white border-2 md:border-4 border-violet-600 min-h-[200px] md:min-h-0">
             {isMyTurn ? (
               <DrawingCanvas 
-                onUpdate={updateDrawing}
+                drawing={gameState.drawing}
+                undoneOps={gameState.undoneOps}
+                onDrawEvent={sendDrawEvent}
                 disabled={gameState.phase !== GamePhase.DRAWING}
                 currentColor={brushColor}
                 onColorChange={setBrushColor}
-                initialData={gameState.canvasData}
               />
             ) : (
               <div className="w-full h-full flex items-center justify-center bg-white relative">
-                {gameState.canvasData ? (
-                  <img src={gameState.canvasData} className="w-full h-full object-contain" alt="Live Drawing" />
+                {gameState.drawing.length > 0 ? (
+                  <DrawingView drawing={gameState.drawing} className="w-full h-full" />
                 ) : (
                   <div className="text-violet-300 animate-pulse flex flex-col items-center">
                     <Pencil size={32} className="md:w-12 md:h-12 mb-2"/>
                     <p className="font-bold text-sm md:text-base">
                       {phase === GamePhase.WORD_SELECTION 
-                        ? `${currentPlayer?.name} is picking a word...`
+                        ? `${currentPlayer?.name} is picking a word... ${gameState.timeLeft}s`
                         : 'Waiting for drawing...'}
                     </p>
                   </div>
@@ -710,20 +1163,27 @@ const App: React.FC = () => {
         {/* Right: Chat */}
         <div className="w-full lg:w-96 flex flex-col bg-white rounded-xl md:rounded-2xl shadow-xl border-2 md:border-4 border-violet-300 overflow-hidden shrink-0 h-[30vh] lg:h-auto relative z-20">
           <div className="p-2 md:p-3 bg-violet-100 border-b border-violet-200 flex justify-between items-center shadow-sm">
-            <h3 className="font-bold text-violet-900 text-xs md:text-sm flex items-center gap-1 md:gap-2 uppercase tracking-wider"><MessageSquare size={14} className="text-violet-600"/> Guess / Chat</h3>
+            <h3 className="font-bold text-violet-900 text-xs md:text-sm flex items-center gap-1 md:gap-2 uppercase tracking-wider"><MessageSquare size={14} className="text-violet-600"/> {isSpectator ? 'Spectator Chat' : 'Guess / Chat'}</h3>
             <span className="text-[10px] md:text-xs font-bold bg-violet-200 text-violet-700 px-2 py-0.5 md:py-1 rounded-full">{players.length} online</span>
           </div>
           
           <div className="flex-1 overflow-y-auto p-2 md:p-3 space-y-2 md:space-y-3 bg-violet-50 scroll-container">
             {gameState.messages.map((msg) => (
               <div key={msg.id} className={`text-xs md:text-sm p-2 md:p-2.5 rounded-lg md:rounded-xl break-words shadow-sm animate-fade-in border ${
+                msg.isCloseGuess ? 'bg-amber-100 text-amber-800 border-amber-300 text-center text-[10px] md:text-xs font-bold' :
+                msg.channel === 'SPECTATOR' ? 'bg-slate-100 text-slate-700 border-slate-200' :
+                msg.channel === 'GUESSED' ? 'bg-blue-50 text-blue-900 border-blue-200' :
                 msg.isSystem ? 'bg-violet-200 text-violet-800 border-violet-300 text-center text-[10px] md:text-xs italic' :
                 msg.isCorrectGuess ? 'bg-green-100 text-green-900 border-green-300 font-bold' :
                 'bg-white text-gray-800 border-violet-100'
               }`}>
                 {!msg.isSystem && (
                   <div className="flex items-baseline justify-between mb-1">
-                    <span className={`font-bold text-[10px] md:text-xs ${msg.isCorrectGuess ? 'text-green-700' : 'text-violet-600'}`}>{msg.playerName}</span>
+                    <span className={`font-bold text-[10px] md:text-xs flex items-center gap-1 ${msg.isCorrectGuess ? 'text-green-700' : msg.channel === 'SPECTATOR' ? 'text-slate-500' : msg.channel === 'GUESSED' ? 'text-blue-600' : 'text-violet-600'}`}>
+                      {msg.channel === 'SPECTATOR' && <Eye size={10} />}
+                      {msg.channel === 'GUESSED' && <Check size={10} />}
+                      {msg.playerName}
+                    </span>
                     <span className="text-[8px] md:text-[10px] text-gray-400">{new Date(msg.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
                   </div>
                 )}
@@ -733,6 +1193,9 @@ const App: React.FC = () => {
           </div>
 
           <div className="p-2 md:p-3 bg-white border-t border-violet-100">
+            {chatError && (
+              <p className="mb-2 text-[10px] md:text-xs font-bold text-red-600 bg-red-50 border border-red-200 rounded-lg px-2 py-1 animate-fade-in">{chatError}</p>
+            )}
             <form 
               onSubmit={(e) => { e.preventDefault(); handleSubmitGuess(); }}
               className="flex gap-2"
@@ -741,17 +1204,17 @@ const App: React.FC = () => {
                 type="text"
                 value={guessInput}
                 onChange={(e) => setGuessInput(e.target.value)}
-                disabled={isMyTurn}
-                placeholder={isMyTurn ? "Your turn!" : hasGuessed ? "Chat..." : "Type guess..."}
-                className={`flex-1 px-3 md:px-4 py-2 md:py-3 rounded-lg md:rounded-xl border-2 focus:outline-none text-sm md:text-base font-medium transition-all ${hasGuessed ? 'bg-blue-50 border-blue-200 text-blue-900 placeholder-blue-400' : 'bg-violet-50 border-violet-200 focus:border-violet-500 focus:bg-white text-violet-900 placeholder-violet-400'}`}
+                maxLength={MAX_MESSAGE_LENGTH}
+                placeholder={isSpectator ? "Chat with spectators..." : chatsWithGuessed ? "Chat with players who guessed..." : isMyTurn ? "Chat..." : "Type guess..."}
+                className={`flex-1 px-3 md:px-4 py-2 md:py-3 rounded-lg md:rounded-xl border-2 focus:outline-none text-sm md:text-base font-medium transition-all ${chatsWithGuessed ? 'bg-blue-50 border-blue-200 text-blue-900 placeholder-blue-400' : 'bg-violet-50 border-violet-200 focus:border-violet-500 focus:bg-white text-violet-900 placeholder-violet-400'}`}
                 autoComplete="off"
               />
               <button 
                 type="submit" 
-                disabled={!guessInput || isMyTurn}
-                className={`p-2 md:p-3 rounded-lg md:rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all transform active:scale-95 shadow-md text-white ${hasGuessed ? 'bg-blue-500 hover:bg-blue-600' : 'bg-violet-600 hover:bg-violet-700 active:bg-violet-800'}`}
+                disabled={!guessInput}
+                className={`p-2 md:p-3 rounded-lg md:rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all transform active:scale-95 shadow-md text-white ${chatsWithGuessed ? 'bg-blue-500 hover:bg-blue-600' : 'bg-violet-600 hover:bg-violet-700 active:bg-violet-800'}`}
               >
-                {hasGuessed ? <MessageSquare size={18} /> : <Send size={18} />}
+                {chatsWithGuessed || isMyTurn ? <MessageSquare size={18} /> : <Send size={18} />}
               </button>
             </form>
           </div>
@@ -774,7 +1237,8 @@ const App: React.FC = () => {
           
           <div className="space-y-2 md:space-y-3">
             <h2 className="text-base md:text-xl text-violet-600 font-bold mb-2 md:mb-4 uppercase tracking-widest">Current Standings</h2>
-            {sorted.map((p, i) => (
+            {teamCount > 0 && <TeamStandings teams={rankTeams(players, teamCount)} />}
+            {teamCount === 0 && sorted.map((p, i) => (
               <div key={p.id} className={`flex items-center justify-between p-2 md:p-4 rounded-xl md:rounded-2xl border-2 ${i === 0 ? 'bg-yellow-50 border-yellow-400' : 'bg-violet-50 border-violet-100'}`}>
                 <div className="flex items-center gap-2 md:gap-4">
                   <span className={`font-black text-base md:text-xl ${i === 0 ? 'text-yellow-600' : 'text-violet-400'}`}>#{i+1}</span>
@@ -790,6 +1254,7 @@ const App: React.FC = () => {
             <p className="text-violet-500 animate-pulse font-bold text-sm md:text-base">Next round starting soon...</p>
           </div>
         </div>
+        {renderPausedOverlay()}
       </div>
     );
   };
@@ -798,6 +1263,8 @@ const App: React.FC = () => {
     if (!gameState || players.length === 0) return null;
     const sorted = [...players].sort((a,b) => b.score - a.score);
     const winner = sorted[0];
+    const teams = rankTeams(players, teamCount);
+    const winningTeam = teams[0];
 
     return (
       <div className="flex flex-col items-center md:justify-center min-h-screen animate-fade-in p-3 md:p-4 overflow-y-auto scroll-container">
@@ -806,35 +1273,77 @@ const App: React.FC = () => {
 
           <h1 className="text-3xl md:text-5xl font-black text-violet-800 mb-4 md:mb-8 pt-2">Game Over!</h1>
           
-          <div className="flex flex-col items-center p-4 md:p-8 bg-yellow-50 rounded-2xl md:rounded-3xl border-4 border-yellow-400 shadow-inner">
-            <Trophy size={48} className="md:w-20 md:h-20 text-yellow-500 mb-3 md:mb-6 drop-shadow-lg" />
-            <div className="mb-3 md:mb-6 transform md:scale-125">
-              <Avatar config={winner.avatar} size="lg" />
+          {winningTeam ? (
+            <div className="flex flex-col items-center p-4 md:p-8 bg-yellow-50 rounded-2xl md:rounded-3xl border-4 border-yellow-400 shadow-inner">
+              <Trophy size={48} className="md:w-20 md:h-20 text-yellow-500 mb-3 md:mb-6 drop-shadow-lg" />
+              <div className="flex flex-wrap justify-center gap-2 mb-3 md:mb-6">
+                {winningTeam.players.map(p => <Avatar key={p.id} config={p.avatar} size="md" />)}
+              </div>
+              <h2 className="text-2xl md:text-4xl font-black text-violet-900 mb-1 md:mb-2">{TEAMS[winningTeam.teamId].name} Team</h2>
+              <p className="text-xl md:text-2xl text-yellow-700 font-bold">{winningTeam.score} pts</p>
+              <div className="mt-2 md:mt-4 text-xs md:text-sm uppercase tracking-[0.3em] md:tracking-[0.5em] text-violet-400 font-bold">Champions</div>
             </div>
-            <h2 className="text-2xl md:text-4xl font-black text-violet-900 mb-1 md:mb-2">{winner.name}</h2>
-            <p className="text-xl md:text-2xl text-yellow-700 font-bold">{winner.score} pts</p>
-            <div className="mt-2 md:mt-4 text-xs md:text-sm uppercase tracking-[0.3em] md:tracking-[0.5em] text-violet-400 font-bold">Champion</div>
-          </div>
+          ) : (
+            <div className="flex flex-col items-center p-4 md:p-8 bg-yellow-50 rounded-2xl md:rounded-3xl border-4 border-yellow-400 shadow-inner">
+              <Trophy size={48} className="md:w-20 md:h-20 text-yellow-500 mb-3 md:mb-6 drop-shadow-lg" />
+              <div className="mb-3 md:mb-6 transform md:scale-125">
+                <Avatar config={winner.avatar} size="lg" />
+              </div>
+              <h2 className="text-2xl md:text-4xl font-black text-violet-900 mb-1 md:mb-2">{winner.name}</h2>
+              <p className="text-xl md:text-2xl text-yellow-700 font-bold">{winner.score} pts</p>
+              <div className="mt-2 md:mt-4 text-xs md:text-sm uppercase tracking-[0.3em] md:tracking-[0.5em] text-violet-400 font-bold">Champion</div>
+            </div>
+          )}
 
-          <div className="space-y-2 mt-4 md:mt-8">
-            {sorted.slice(1).map((p, i) => (
-              <div key={p.id} className="flex items-center justify-between p-2 md:p-3 bg-violet-50 rounded-xl border border-violet-100">
-                <div className="flex items-center gap-2 md:gap-3">
-                  <span className="font-bold text-violet-400 w-6 md:w-8 text-sm md:text-base">#{i+2}</span>
-                  <Avatar config={p.avatar} size="sm" />
-                  <span className="font-bold text-violet-800 text-sm md:text-base">{p.name}</span>
+          {winningTeam ? (
+            <TeamStandings teams={teams} />
+          ) : (
+            <div className="space-y-2 mt-4 md:mt-8">
+              {sorted.slice(1).map((p, i) => (
+                <div key={p.id} className="flex items-center justify-between p-2 md:p-3 bg-violet-50 rounded-xl border border-violet-100">
+                  <div className="flex items-center gap-2 md:gap-3">
+                    <span className="font-bold text-violet-400 w-6 md:w-8 text-sm md:text-base">#{i+2}</span>
+                    <Avatar config={p.avatar} size="sm" />
+                    <span className="font-bold text-violet-800 text-sm md:text-base">{p.name}</span>
+                  </div>
+                  <span className="font-bold text-violet-600 text-sm md:text-base">{p.score} pts</span>
                 </div>
-                <span className="font-bold text-violet-600 text-sm md:text-base">{p.score} pts</span>
+              ))}
+            </div>
+          )}
+
+          <DrawingGallery gallery={gallery} />
+
+          {gameState.gameId && (
+            <div className="space-y-1">
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleExportResults('json')}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl bg-violet-100 text-violet-800 font-bold hover:bg-violet-200 text-sm md:text-base"
+                >
+                  <Download size={16} /> Export JSON
+                </button>
+                <button
+                  onClick={() => handleExportResults('csv')}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl bg-violet-100 text-violet-800 font-bold hover:bg-violet-200 text-sm md:text-base"
+                >
+                  <Download size={16} /> Export CSV
+                </button>
               </div>
-            ))}
-          </div>
+              {exportError && <p className="text-xs text-red-500 font-bold">{exportError}</p>}
+            </div>
+          )}
 
-          <button 
-            onClick={handleRestartGame}
-            className="w-full py-3 md:py-4 bg-violet-800 text-white rounded-2xl font-bold text-lg md:text-xl hover:bg-violet-700 transition-all shadow-xl hover:scale-[1.02] active:scale-95 mt-4 md:mt-8"
-          >
-            Play Again
-          </button>
+          {isHost ? (
+            <button 
+              onClick={handleRestartGame}
+              className="w-full py-3 md:py-4 bg-violet-800 text-white rounded-2xl font-bold text-lg md:text-xl hover:bg-violet-700 transition-all shadow-xl hover:scale-[1.02] active:scale-95 mt-4 md:mt-8"
+            >
+              Play Again
+            </button>
+          ) : (
+            <p className="text-violet-500 font-bold animate-pulse mt-4 md:mt-8">Waiting for the host to play again...</p>
+          )}
           <button 
             onClick={goToMainMenu}
             className="w-full py-2 text-violet-500 font-bold hover:text-violet-700 text-sm md:text-base"
@@ -846,16 +1355,47 @@ const App: React.FC = () => {
     );
   };
 
+  const renderTelephone = () => gameState?.telephone && (
+    <div className="min-h-screen bg-violet-900 pattern-bg font-fredoka">
+      {renderConnectionStatus()}
+      <button
+        onClick={goToMainMenu}
+        className="fixed top-2 left-2 z-50 p-2 rounded-lg bg-white/90 hover:bg-violet-100 text-violet-600 transition-colors"
+        title="Leave Game"
+      >
+        <Home size={18} />
+      </button>
+      <TelephoneGame
+        view={gameState.telephone}
+        drawing={gameState.drawing}
+        undoneOps={gameState.undoneOps}
+        onDrawEvent={sendDrawEvent}
+        currentColor={brushColor}
+        onColorChange={setBrushColor}
+        onSubmit={submitTelephone}
+        isHost={isHost}
+        onRevealNext={revealTelephoneNext}
+        onRestart={handleRestartGame}
+      />
+    </div>
+  );
+
   // --- Main Render Switch ---
 
+  if (kickInfo) return renderKicked();
   if (phase === GamePhase.MENU) return renderMainMenu();
   if (phase === GamePhase.HOST_SETUP) return renderHostSetup();
+  if (phase === GamePhase.PROFILE) return renderProfile();
   if (phase === GamePhase.LOBBY_BROWSER) return renderLobbyBrowser();
   if (phase === GamePhase.LOBBY_WAITING) return renderLobbyWaiting();
   if (phase === GamePhase.ROOM_LOBBY) return renderRoomLobby();
   if (phase === GamePhase.TURN_END) return renderTurnSummary();
   if (phase === GamePhase.ROUND_END) return renderRoundSummary();
   if (phase === GamePhase.GAME_OVER) return renderGameOver();
+  if (phase === GamePhase.TELEPHONE_PROMPT ||
+      phase === GamePhase.TELEPHONE_DRAW ||
+      phase === GamePhase.TELEPHONE_DESCRIBE ||
+      phase === GamePhase.TELEPHONE_REVEAL) return renderTelephone();
 
   return (
     <div className="min-h-screen bg-violet-900 pattern-bg text-white font-fredoka overflow-hidden">
@@ -868,6 +1408,8 @@ const App: React.FC = () => {
         phase === GamePhase.TURN_START || 
         phase === GamePhase.ROUND_START ||
         (phase === GamePhase.WORD_SELECTION && !isMyTurn)) && renderGameScreen()}
+
+      {renderPausedOverlay()}
     </div>
   );
 };
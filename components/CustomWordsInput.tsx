@@ -0,0 +1,61 @@
+import React from 'react';
+import { Upload } from 'lucide-react';
+import { CustomWordMode } from '../types';
+import { parseCustomWords } from '../services/words';
+
+interface CustomWordsInputProps {
+  text: string;
+  mode: CustomWordMode;
+  onTextChange: (text: string) => void;
+  onModeChange: (mode: CustomWordMode) => void;
+}
+
+export const CustomWordsInput: React.FC<CustomWordsInputProps> = ({ text, mode, onTextChange, onModeChange }) => {
+  const wordCount = parseCustomWords(text).length;
+
+  // Load words from a plain text / CSV file
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const content = typeof reader.result === 'string' ? reader.result : '';
+      onTextChange(text ? `${text}\n${content}` : content);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => onTextChange(e.target.value)}
+        rows={4}
+        className="w-full bg-violet-50 border-2 border-violet-200 rounded-xl p-3 text-violet-900 focus:outline-none focus:border-violet-600 font-bold text-sm resize-none"
+        placeholder="One word per line, or comma-separated"
+      />
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <label className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-violet-100 text-violet-700 font-bold text-xs md:text-sm cursor-pointer hover:bg-violet-200">
+          <Upload size={14} /> Upload .txt
+          <input type="file" accept=".txt,.csv,text/plain" onChange={handleFile} className="hidden" />
+        </label>
+        <span className="text-xs font-bold text-violet-400">{wordCount} words</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {(['MIX', 'CUSTOM_ONLY'] as CustomWordMode[]).map(m => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => onModeChange(m)}
+            disabled={wordCount === 0}
+            className={`py-2 text-xs md:text-sm rounded-lg border-2 font-bold transition-all disabled:opacity-50 ${mode === m ? 'border-violet-600 bg-violet-100 text-violet-900' : 'border-violet-100 text-violet-400 hover:border-violet-200'}`}
+          >
+            {m === 'MIX' ? 'Mix with defaults' : 'Custom words only'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,277 +1,257 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Trash2, Undo2, Eraser } from 'lucide-react';
-import { COLORS } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Trash2, Undo2, Redo2, Eraser, Pencil, PaintBucket, Slash, Square, Circle } from 'lucide-react';
+import { COLORS, DrawEvent, DrawingOp, DrawTool, ShapeKind, StrokePoint } from '../types';
+import { createOpId, CANVAS_WIDTH, CANVAS_HEIGHT } from '../services/drawing';
+import { useDrawingRenderer } from '../hooks/useDrawingRenderer';
+
+const MIN_BRUSH_SIZE = 1;
+const MAX_BRUSH_SIZE = 40;
+
+const TOOLS: { tool: DrawTool; label: string; icon: React.ElementType }[] = [
+  { tool: 'pen', label: 'Pen', icon: Pencil },
+  { tool: 'eraser', label: 'Eraser', icon: Eraser },
+  { tool: 'fill', label: 'Fill', icon: PaintBucket },
+  { tool: 'line', label: 'Line', icon: Slash },
+  { tool: 'rect', label: 'Rectangle', icon: Square },
+  { tool: 'ellipse', label: 'Ellipse', icon: Circle },
+];
+
+const isShapeTool = (tool: DrawTool): tool is ShapeKind =>
+  tool === 'line' || tool === 'rect' || tool === 'ellipse';
 
 interface DrawingCanvasProps {
-  onUpdate: (base64: string) => void;
+  drawing: DrawingOp[];
+  undoneOps: DrawingOp[];
+  onDrawEvent: (event: DrawEvent) => void;
   disabled: boolean;
   currentColor: string;
   onColorChange: (color: string) => void;
-  initialData?: string | null;
 }
 
-export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onUpdate, disabled, currentColor, onColorChange, initialData }) => {
+export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ drawing, undoneOps, onDrawEvent, disabled, currentColor, onColorChange }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [history, setHistory] = useState<ImageData[]>([]);
   const [lineWidth, setLineWidth] = useState(5);
-  const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
+  const [tool, setTool] = useState<DrawTool>('pen');
   
-  // Track last position for efficient segment drawing
-  const lastPos = useRef<{ x: number; y: number } | null>(null);
-  
-  // Ref for debounce timer
-  const updateTimeoutRef = useRef<number | null>(null);
+  // Id of the stroke or shape currently being drawn
+  const activeStrokeId = useRef<string | null>(null);
+  const activeShapeId = useRef<string | null>(null);
 
-  // Debounced update function
-  const debouncedUpdate = useCallback((canvas: HTMLCanvasElement) => {
-    if (updateTimeoutRef.current) {
-      window.clearTimeout(updateTimeoutRef.current);
-    }
-    
-    updateTimeoutRef.current = window.setTimeout(() => {
-      onUpdate(canvas.toDataURL());
-    }, 200);
-  }, [onUpdate]);
+  // The canvas is always rendered from the operation list
+  useDrawingRenderer(canvasRef, containerRef, drawing);
 
-  // Cleanup timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (updateTimeoutRef.current) {
-        window.clearTimeout(updateTimeoutRef.current);
-      }
-    };
-  }, []);
-  
-  // Initialize canvas and handle resize
-  useEffect(() => {
+  // Map the pointer back to logical canvas coordinates (held to the edge when it strays
+  // outside, as the server does)
+  const getPoint = (e: React.MouseEvent | React.TouchEvent): StrokePoint | null => {
     const canvas = canvasRef.current;
-    const container = containerRef.current;
-    if (!canvas || !container) return;
+    if (!canvas) return null;
 
-    const updateSize = () => {
-      // Save current content before resize
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = canvas.width;
-      tempCanvas.height = canvas.height;
-      const tempCtx = tempCanvas.getContext('2d');
-      if (tempCtx) tempCtx.drawImage(canvas, 0, 0);
+    const { clientX, clientY } = 'touches' in e ? e.touches[0] : e as React.MouseEvent;
+    const rect = canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
 
-      canvas.width = container.offsetWidth;
-      canvas.height = container.offsetHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Restore content if any existed
-        if (tempCanvas.width > 0 && tempCanvas.height > 0) {
-             ctx.drawImage(tempCanvas, 0, 0);
-        }
-      }
-      setHistory([]); // Clear history to prevent undo bugs with resized ImageData
+    const x = Math.round((clientX - rect.left) * CANVAS_WIDTH / rect.width * 10) / 10;
+    const y = Math.round((clientY - rect.top) * CANVAS_HEIGHT / rect.height * 10) / 10;
+    return {
+      x: Math.min(CANVAS_WIDTH, Math.max(0, x)),
+      y: Math.min(CANVAS_HEIGHT, Math.max(0, y))
     };
+  };
 
-    updateSize();
-    window.addEventListener('resize', updateSize);
-    return () => window.removeEventListener('resize', updateSize);
-  }, []);
-
-  // Handle Initial Data Load (Persistence)
-  useEffect(() => {
-    if (initialData && canvasRef.current) {
-        const img = new Image();
-        img.onload = () => {
-            const ctx = canvasRef.current?.getContext('2d');
-            if (ctx) {
-                ctx.drawImage(img, 0, 0);
-            }
-        };
-        img.src = initialData;
-    }
-  }, []); // Only on mount
+  const handleUndo = () => {
+    if (drawing.length === 0 || disabled) return;
+    onDrawEvent({ type: 'undo' });
+  };
 
-  // Save history helper
-  const saveState = () => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      setHistory(prev => [...prev.slice(-10), imageData]); // Keep last 10
-      onUpdate(canvas.toDataURL());
-    }
+  const handleRedo = () => {
+    if (undoneOps.length === 0 || disabled) return;
+    onDrawEvent({ type: 'redo', op: undoneOps[undoneOps.length - 1] });
   };
 
-  // Restore history
-  const handleUndo = () => {
-    if (history.length === 0 || disabled) return;
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-      const newHistory = [...history];
-      const previousState = newHistory.pop(); 
-      
-      setHistory(newHistory);
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac), ignored while typing in an input
+  const shortcutsRef = useRef({ handleUndo, handleRedo });
+  shortcutsRef.current = { handleUndo, handleRedo };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
 
-      if (previousState) {
-        ctx.putImageData(previousState, 0, 0);
-      } else {
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutsRef.current.handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        shortcutsRef.current.handleRedo();
       }
-      // Immediate update for Undo
-      if (updateTimeoutRef.current) clearTimeout(updateTimeoutRef.current);
-      onUpdate(canvas.toDataURL());
-    }
-  };
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   const handleClear = () => {
     if (disabled) return;
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-      saveState(); 
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      // Immediate update for Clear
-      if (updateTimeoutRef.current) clearTimeout(updateTimeoutRef.current);
-      onUpdate(canvas.toDataURL());
-    }
+    onDrawEvent({ type: 'clear', id: createOpId() });
   };
 
   // Drawing Handlers
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     if (disabled) return;
-    setIsDrawing(true);
-    saveState(); 
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
+    const point = getPoint(e);
+    if (!point) return;
 
-    const { clientX, clientY } = 'touches' in e ? e.touches[0] : e as React.MouseEvent;
-    const rect = canvas.getBoundingClientRect();
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
-    
-    lastPos.current = { x, y };
+    const id = createOpId();
 
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-    
-    if (tool === 'eraser') {
-      ctx.strokeStyle = '#FFFFFF';
-      ctx.lineWidth = lineWidth * 2; 
-    } else {
-      ctx.strokeStyle = currentColor;
-      ctx.lineWidth = lineWidth;
+    if (tool === 'fill') {
+      onDrawEvent({ type: 'fill', fill: { kind: 'fill', id, color: currentColor, point } });
+      return;
     }
-    
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    
-    // Draw a single dot to represent the start
-    ctx.lineTo(x, y);
-    ctx.stroke();
-  };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || disabled || !lastPos.current) return;
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
+    // Shapes are previewed live by updating their end point while dragging
+    if (isShapeTool(tool)) {
+      activeShapeId.current = id;
+      onDrawEvent({
+        type: 'shape-start',
+        shape: { kind: 'shape', id, shape: tool, color: currentColor, width: lineWidth, from: point, to: point }
+      });
+      return;
+    }
 
-    const { clientX, clientY } = 'touches' in e ? e.touches[0] : e as React.MouseEvent;
-    const rect = canvas.getBoundingClientRect();
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
+    activeStrokeId.current = id;
 
-    // Draw segment from last position to current
-    ctx.beginPath();
-    ctx.moveTo(lastPos.current.x, lastPos.current.y);
-    ctx.lineTo(x, y);
-    ctx.stroke();
+    onDrawEvent({
+      type: 'stroke-start',
+      stroke: {
+        kind: 'stroke',
+        id,
+        tool,
+        color: currentColor,
+        width: tool === 'eraser' ? lineWidth * 2 : lineWidth,
+        points: [point]
+      }
+    });
+  };
 
-    lastPos.current = { x, y };
+  const draw = (e: React.MouseEvent | React.TouchEvent) => {
+    if ((!activeStrokeId.current && !activeShapeId.current) || disabled) return;
+    const point = getPoint(e);
+    if (!point) return;
 
-    // Debounced update during drawing
-    debouncedUpdate(canvas);
+    if (activeShapeId.current) {
+      onDrawEvent({ type: 'shape-update', id: activeShapeId.current, to: point });
+    } else if (activeStrokeId.current) {
+      onDrawEvent({ type: 'stroke-points', id: activeStrokeId.current, points: [point] });
+    }
   };
 
   const stopDrawing = () => {
-    if (!isDrawing) return;
-    setIsDrawing(false);
-    lastPos.current = null;
-    const canvas = canvasRef.current;
-    if (canvas) {
-      // Cancel any pending debounced updates and trigger immediate update on stop
-      if (updateTimeoutRef.current) {
-        window.clearTimeout(updateTimeoutRef.current);
-      }
-      onUpdate(canvas.toDataURL());
+    if (activeShapeId.current) {
+      onDrawEvent({ type: 'shape-end', id: activeShapeId.current });
+      activeShapeId.current = null;
     }
+    if (activeStrokeId.current) {
+      onDrawEvent({ type: 'stroke-end', id: activeStrokeId.current });
+      activeStrokeId.current = null;
+    }
+  };
+
+  const selectColor = (color: string) => {
+    onColorChange(color);
+    if (tool === 'eraser') setTool('pen');
   };
 
   return (
     <div className="flex flex-col h-full w-full max-w-2xl mx-auto bg-white rounded-xl shadow-2xl overflow-hidden border-4 border-violet-700">
       
       {/* Toolbar */}
-      <div className="flex items-center justify-between p-2 bg-violet-100 border-b border-violet-200">
-        <div className="flex gap-1 overflow-x-auto pb-1 max-w-[50%] scrollbar-hide">
+      <div className="flex flex-col gap-1 p-2 bg-violet-100 border-b border-violet-200">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1 overflow-x-auto pb-1 scrollbar-hide items-center">
           {COLORS.map(c => (
             <button
               key={c}
-              onClick={() => {
-                onColorChange(c);
-                setTool('pen'); 
-              }}
-              className={`w-8 h-8 rounded-full border-2 flex-shrink-0 transition-transform ${currentColor === c && tool === 'pen' ? 'border-black scale-110' : 'border-transparent'}`}
+              onClick={() => selectColor(c)}
+              className={`w-8 h-8 rounded-full border-2 flex-shrink-0 transition-transform ${currentColor === c && tool !== 'eraser' ? 'border-black scale-110' : 'border-transparent'}`}
               style={{ backgroundColor: c }}
               title={c}
             />
           ))}
+          {/* Custom colour */}
+          <label
+            className={`relative w-8 h-8 rounded-full border-2 flex-shrink-0 overflow-hidden cursor-pointer ${!COLORS.includes(currentColor) && tool !== 'eraser' ? 'border-black scale-110' : 'border-violet-300'}`}
+            style={{ background: COLORS.includes(currentColor) ? 'conic-gradient(red, yellow, lime, cyan, blue, magenta, red)' : currentColor }}
+            title="Custom colour"
+          >
+            <input
+              type="color"
+              value={currentColor}
+              onChange={(e) => selectColor(e.target.value.toUpperCase())}
+              className="absolute inset-0 opacity-0 cursor-pointer"
+            />
+          </label>
         </div>
         <div className="flex gap-2 items-center">
-            {/* Brush Size Toggle */}
             <button 
-                onClick={() => setLineWidth(lineWidth === 5 ? 15 : 5)} 
-                className={`p-2 rounded hover:bg-violet-200 ${lineWidth > 5 ? 'bg-violet-300' : ''}`}
-                title="Toggle Brush Size"
-            >
-                <div className="bg-black rounded-full" style={{ width: lineWidth > 5 ? 12 : 6, height: lineWidth > 5 ? 12 : 6 }} />
-            </button>
-
-            {/* Eraser Tool */}
-            <button 
-                onClick={() => setTool(t => t === 'eraser' ? 'pen' : 'eraser')}
-                className={`p-2 rounded transition-colors ${tool === 'eraser' ? 'bg-violet-600 text-white' : 'text-violet-800 hover:bg-violet-200'}`}
-                title={tool === 'eraser' ? "Switch to Pen" : "Eraser"}
+                onClick={handleUndo} 
+                disabled={drawing.length === 0}
+                className={`p-2 rounded ${drawing.length === 0 ? 'text-gray-400 cursor-not-allowed' : 'text-violet-800 hover:bg-violet-200'}`} 
+                title="Undo (Ctrl+Z)"
             >
-                <Eraser size={20} />
+                <Undo2 size={20} />
             </button>
-
-            <div className="w-px h-6 bg-violet-300 mx-1"></div>
-
             <button 
-                onClick={handleUndo} 
-                disabled={history.length === 0}
-                className={`p-2 rounded ${history.length === 0 ? 'text-gray-400 cursor-not-allowed' : 'text-violet-800 hover:bg-violet-200'}`} 
-                title="Undo"
+                onClick={handleRedo} 
+                disabled={undoneOps.length === 0}
+                className={`p-2 rounded ${undoneOps.length === 0 ? 'text-gray-400 cursor-not-allowed' : 'text-violet-800 hover:bg-violet-200'}`} 
+                title="Redo (Ctrl+Shift+Z)"
             >
-                <Undo2 size={20} />
+                <Redo2 size={20} />
             </button>
             <button onClick={handleClear} className="p-2 text-red-600 hover:bg-red-100 rounded" title="Clear All">
                 <Trash2 size={20} />
             </button>
         </div>
       </div>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex gap-1 items-center">
+          {TOOLS.map(({ tool: t, label, icon: Icon }) => (
+            <button
+              key={t}
+              onClick={() => setTool(t)}
+              className={`p-2 rounded transition-colors ${tool === t ? 'bg-violet-600 text-white' : 'text-violet-800 hover:bg-violet-200'}`}
+              title={label}
+            >
+              <Icon size={18} />
+            </button>
+          ))}
+        </div>
+
+        {/* Brush Size */}
+        <label className="flex items-center gap-2 text-xs font-bold text-violet-700" title="Brush Size">
+          <input
+            type="range"
+            min={MIN_BRUSH_SIZE}
+            max={MAX_BRUSH_SIZE}
+            value={lineWidth}
+            onChange={(e) => setLineWidth(Number(e.target.value))}
+            className="w-24 md:w-32 accent-violet-600"
+          />
+          <span className="w-6 h-6 flex items-center justify-center">
+            <span className="bg-black rounded-full" style={{ width: Math.max(2, lineWidth / 2), height: Math.max(2, lineWidth / 2) }} />
+          </span>
+          <span className="w-5 tabular-nums">{lineWidth}</span>
+        </label>
+      </div>
+      </div>
 
       {/* Canvas Area */}
       <div 
         ref={containerRef} 
-        className="flex-1 relative cursor-crosshair touch-none bg-white"
+        className="flex-1 relative flex items-center justify-center overflow-hidden touch-none bg-violet-50"
         style={{ minHeight: '300px' }}
       >
         <canvas
@@ -283,7 +263,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onUpdate, disabled
           onTouchStart={startDrawing}
           onTouchMove={draw}
           onTouchEnd={stopDrawing}
-          className="w-full h-full block"
+          className="block bg-white shadow-sm cursor-crosshair"
         />
         {disabled && (
           <div className="absolute inset-0 bg-black/10 cursor-not-allowed flex items-center justify-center">
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Download, Film, X, Check, Image as ImageIcon } from 'lucide-react';
+import { DrawingOp, GalleryEntry } from '../types';
+import { DrawingView } from './DrawingView';
+import { applyDrawEvent, getTimelapseTimes } from '../services/drawing';
+import { canRecordVideo, downloadPng, downloadTimelapseVideo } from '../services/drawingExport';
+
+interface DrawingGalleryProps {
+  gallery: GalleryEntry[];
+}
+
+// Replays a drawing's timeline, then leaves the finished picture up
+const useTimelapse = (entry: GalleryEntry) => {
+  const [ops, setOps] = useState<DrawingOp[]>(entry.drawing);
+  const [playing, setPlaying] = useState(false);
+  const frameRef = useRef<number | null>(null);
+
+  const stop = () => {
+    if (frameRef.current !== null) {
+      window.cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  };
+
+  const play = () => {
+    stop();
+    const times = getTimelapseTimes(entry.timeline);
+    const startedAt = performance.now();
+    let current: DrawingOp[] = [];
+    let next = 0;
+
+    setOps([]);
+    setPlaying(true);
+
+    const frame = () => {
+      const elapsed = performance.now() - startedAt;
+      while (next < entry.timeline.length && times[next] <= elapsed) {
+        current = applyDrawEvent(current, entry.timeline[next].event);
+        next++;
+      }
+      setOps(current);
+
+      if (next < entry.timeline.length) {
+        frameRef.current = window.requestAnimationFrame(frame);
+      } else {
+        frameRef.current = null;
+        setOps(entry.drawing);
+        setPlaying(false);
+      }
+    };
+    frameRef.current = window.requestAnimationFrame(frame);
+  };
+
+  useEffect(() => {
+    play();
+    return stop;
+  }, [entry.id]);
+
+  return { ops, playing, play };
+};
+
+const GalleryViewer: React.FC<{ entry: GalleryEntry; onClose: () => void }> = ({ entry, onClose }) => {
+  const { ops, playing, play } = useTimelapse(entry);
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownloadVideo = async () => {
+    setRecording(true);
+    setError(null);
+    try {
+      await downloadTimelapseVideo(entry.timeline, entry.word);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not record the video');
+    }
+    setRecording(false);
+  };
+
+  const handleDownloadPng = () => {
+    setError(null);
+    downloadPng(entry.drawing, entry.word).catch(e => setError(e.message));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-3" onClick={onClose}>
+      <div className="bg-white rounded-3xl p-4 md:p-6 w-full max-w-2xl space-y-3 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-2 text-left">
+          <div>
+            <h3 className="text-2xl font-black text-violet-900">{entry.word}</h3>
+            <p className="text-sm text-violet-500 font-bold">Round {entry.round} • drawn by {entry.drawerName}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-violet-100 text-violet-500" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <DrawingView drawing={ops} className="w-full aspect-[4/3] rounded-xl border-2 border-violet-200" />
+
+        <p className="text-xs md:text-sm text-violet-600 font-bold text-left flex items-center gap-1 flex-wrap">
+          <Check size={14} className="text-green-500" />
+          {entry.guessers.length > 0
+            ? `Guessed by ${entry.guessers.map(g => g.name).join(', ')}`
+            : 'Nobody guessed it'}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={play}
+            disabled={playing}
+            className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl bg-violet-600 text-white font-bold hover:bg-violet-500 disabled:opacity-50"
+          >
+            <Play size={16} /> {playing ? 'Playing...' : 'Replay'}
+          </button>
+          <button
+            onClick={handleDownloadPng}
+            className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl bg-violet-100 text-violet-800 font-bold hover:bg-violet-200"
+          >
+            <Download size={16} /> PNG
+          </button>
+          {canRecordVideo() && (
+            <button
+              onClick={handleDownloadVideo}
+              disabled={recording}
+              className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl bg-violet-100 text-violet-800 font-bold hover:bg-violet-200 disabled:opacity-50"
+            >
+              <Film size={16} /> {recording ? 'Recording...' : 'Video'}
+            </button>
+          )}
+        </div>
+        {error && <p className="text-xs text-red-500 font-bold">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+// Every drawing from the game; pick one to watch it being drawn again or download it
+export const DrawingGallery: React.FC<DrawingGalleryProps> = ({ gallery }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = gallery.find(entry => entry.id === selectedId) || null;
+
+  if (gallery.length === 0) return null;
+
+  return (
+    <div className="space-y-2 text-left">
+      <h3 className="flex items-center gap-2 font-black text-violet-800 text-lg">
+        <ImageIcon size={20} /> Gallery
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 md:gap-3">
+        {gallery.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => setSelectedId(entry.id)}
+            className="group bg-violet-50 rounded-xl border-2 border-violet-100 hover:border-violet-400 p-1.5 text-left transition-colors"
+          >
+            <DrawingView drawing={entry.drawing} className="w-full aspect-[4/3] rounded-lg" />
+            <div className="px-1 pt-1">
+              <div className="font-bold text-violet-900 text-sm truncate">{entry.word}</div>
+              <div className="text-xs text-violet-500 truncate">by {entry.drawerName}</div>
+            </div>
+          </button>
+        ))}
+      </div>
+      {selected && <GalleryViewer entry={selected} onClose={() => setSelectedId(null)} />}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React, { useRef } from 'react';
+import { DrawingOp } from '../types';
+import { useDrawingRenderer } from '../hooks/useDrawingRenderer';
+
+interface DrawingViewProps {
+  drawing: DrawingOp[];
+  className?: string;
+}
+
+// Read-only canvas that renders the drawer's strokes as they arrive
+export const DrawingView: React.FC<DrawingViewProps> = ({ drawing, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useDrawingRenderer(canvasRef, containerRef, drawing);
+
+  return (
+    <div ref={containerRef} className={`relative bg-violet-50 flex items-center justify-center overflow-hidden ${className}`}>
+      <canvas ref={canvasRef} className="block bg-white shadow-sm" />
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Pause, Play } from 'lucide-react';
+
+interface PausedOverlayProps {
+  isHost: boolean;
+  onResume: () => void;
+}
+
+// Covers the game while the host has it paused - only the host can carry on
+export const PausedOverlay: React.FC<PausedOverlayProps> = ({ isHost, onResume }) => (
+  <div className="fixed inset-0 z-[60] flex items-center justify-center bg-violet-950/70 backdrop-blur-sm p-4 animate-fade-in">
+    <div className="bg-white text-violet-900 rounded-3xl border-4 border-violet-300 shadow-2xl p-6 md:p-8 max-w-sm w-full text-center space-y-4">
+      <Pause size={48} className="mx-auto text-violet-500" />
+      <h2 className="text-2xl md:text-3xl font-black">Paused by host</h2>
+      {isHost ? (
+        <button
+          onClick={onResume}
+          className="w-full py-3 bg-violet-600 text-white rounded-2xl font-bold text-lg hover:bg-violet-500 flex items-center justify-center gap-2"
+        >
+          <Play size={20} /> Resume
+        </button>
+      ) : (
+        <p className="text-violet-500 font-bold">The game will carry on when the host resumes it.</p>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,52 @@
+import React from 'react';
+import { UserX, Ban, Crown, Gavel } from 'lucide-react';
+
+interface PlayerModerationActionsProps {
+  name: string;
+  canModerate: boolean; // we are the host
+  canMakeHost: boolean;
+  canVoteKick: boolean;
+  onKick: () => void;
+  onBan: () => void;
+  onMakeHost: () => void;
+  onVoteKick: () => void;
+  className?: string;
+}
+
+// Small icon buttons for dealing with a player: host actions, or a vote-kick while the host is away
+export const PlayerModerationActions: React.FC<PlayerModerationActionsProps> = ({
+  name, canModerate, canMakeHost, canVoteKick, onKick, onBan, onMakeHost, onVoteKick, className = ''
+}) => {
+  if (!canModerate && !canVoteKick) return null;
+
+  const buttonClass = 'p-1 rounded-full text-violet-300 transition-colors';
+
+  return (
+    <div className={`flex items-center gap-0.5 ${className}`}>
+      {canModerate && (
+        <>
+          {canMakeHost && (
+            <button onClick={onMakeHost} className={`${buttonClass} hover:text-yellow-600 hover:bg-yellow-50`} title={`Make ${name} host`}>
+              <Crown size={14} />
+            </button>
+          )}
+          <button onClick={onKick} className={`${buttonClass} hover:text-red-500 hover:bg-red-50`} title={`Kick ${name}`}>
+            <UserX size={14} />
+          </button>
+          <button
+            onClick={() => window.confirm(`Ban ${name} from this room?`) && onBan()}
+            className={`${buttonClass} hover:text-red-700 hover:bg-red-50`}
+            title={`Ban ${name}`}
+          >
+            <Ban size={14} />
+          </button>
+        </>
+      )}
+      {!canModerate && canVoteKick && (
+        <button onClick={onVoteKick} className={`${buttonClass} hover:text-red-500 hover:bg-red-50`} title={`Vote to kick ${name}`}>
+          <Gavel size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
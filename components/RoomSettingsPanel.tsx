@@ -0,0 +1,59 @@
+import React from 'react';
+import { RoomSettings, ChoiceRoomSetting } from '../types';
+import { SETTINGS_LIMITS, SETTINGS_CHOICES } from '../constants';
+
+interface RoomSettingsPanelProps {
+  settings: RoomSettings;
+  onChange: (settings: RoomSettings) => void;
+  disabled?: boolean;
+}
+
+const SETTING_LABELS: Record<keyof RoomSettings, string> = {
+  mode: 'Game Mode',
+  rounds: 'Rounds',
+  drawTime: 'Draw Time (s)',
+  maxPlayers: 'Max Players',
+  wordChoices: 'Word Choices',
+  hintCount: 'Hints',
+  lateJoinScore: 'Late Joiners',
+  voteKick: 'Vote-Kick',
+  scoring: 'Scoring',
+  teams: 'Teams',
+};
+
+const isChoiceSetting = (key: keyof RoomSettings): key is ChoiceRoomSetting => key in SETTINGS_CHOICES;
+
+export const RoomSettingsPanel: React.FC<RoomSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const keys = Object.keys(SETTING_LABELS) as (keyof RoomSettings)[];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 md:gap-3">
+      {keys.map(key => {
+        let options: { value: string | number; label: string }[];
+        if (isChoiceSetting(key)) {
+          options = SETTINGS_CHOICES[key];
+        } else {
+          const limit = SETTINGS_LIMITS[key];
+          options = [];
+          for (let v = limit.min; v <= limit.max; v += limit.step) options.push({ value: v, label: String(v) });
+        }
+
+        return (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="text-xs md:text-sm font-bold text-violet-600">{SETTING_LABELS[key]}</span>
+            <select
+              value={settings[key]}
+              onChange={(e) => onChange({ ...settings, [key]: isChoiceSetting(key) ? e.target.value : Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full bg-violet-50 border-2 border-violet-200 rounded-xl p-2 text-violet-900 focus:outline-none focus:border-violet-600 font-bold disabled:opacity-60"
+            >
+              {options.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
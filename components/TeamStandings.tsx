@@ -0,0 +1,34 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { TeamStanding } from '../services/teams';
+import { TEAMS } from '../constants';
+import { Avatar } from './Avatar';
+
+interface TeamStandingsProps {
+  teams: TeamStanding[]; // already ranked, best first
+}
+
+// Team totals with each member's share, for the round and game summaries
+export const TeamStandings: React.FC<TeamStandingsProps> = ({ teams }) => (
+  <div className="space-y-2 md:space-y-3 text-left">
+    {teams.map((team, i) => (
+      <div key={team.teamId} className={`p-2 md:p-4 rounded-xl md:rounded-2xl border-2 ${TEAMS[team.teamId].className}`}>
+        <div className="flex items-center justify-between mb-2">
+          <span className="flex items-center gap-2 font-black text-base md:text-xl">
+            {i === 0 ? <Trophy size={18} className="text-yellow-500" /> : <span className="opacity-60">#{i + 1}</span>}
+            {TEAMS[team.teamId].name} Team
+          </span>
+          <span className="font-black text-base md:text-xl">{team.score} pts</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {team.players.map(p => (
+            <span key={p.id} className="flex items-center gap-1.5 bg-white/70 rounded-lg px-2 py-1 text-xs md:text-sm font-bold">
+              <Avatar config={p.avatar} size="sm" className="w-5 h-5 md:w-6 md:h-6 text-[7px]" />
+              {p.name} <span className="opacity-60">{p.score}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Send, Check, ChevronRight, Phone, Pencil, MessageSquare } from 'lucide-react';
+import { DrawEvent, DrawingOp, TelephoneEntry, TelephoneView } from '../types';
+import { MAX_TELEPHONE_TEXT_LENGTH } from '../constants';
+import { DrawingCanvas } from './DrawingCanvas';
+import { DrawingView } from './DrawingView';
+
+interface TelephoneGameProps {
+  view: TelephoneView;
+  drawing: DrawingOp[]; // this player's own picture during a drawing step
+  undoneOps: DrawingOp[];
+  onDrawEvent: (event: DrawEvent) => void;
+  currentColor: string;
+  onColorChange: (color: string) => void;
+  onSubmit: (text?: string) => Promise<{ success: boolean; error?: string }>;
+  isHost: boolean;
+  onRevealNext: () => void;
+  onRestart: () => void;
+}
+
+const STEP_TITLES = {
+  PROMPT: 'Write something for someone to draw',
+  DRAW: 'Draw this!',
+  DESCRIBE: 'What is this a drawing of?'
+};
+
+// Counts down locally from the time left in the last update
+const useCountdown = (seconds: number) => {
+  const [timeLeft, setTimeLeft] = useState(seconds);
+
+  useEffect(() => {
+    setTimeLeft(seconds);
+    const interval = window.setInterval(() => setTimeLeft(t => Math.max(0, t - 1)), 1000);
+    return () => window.clearInterval(interval);
+  }, [seconds]);
+
+  return timeLeft;
+};
+
+// A prompt, description or drawing, credited to whoever made it
+const EntryCard: React.FC<{ entry: TelephoneEntry; isFirst: boolean }> = ({ entry, isFirst }) => (
+  <div className="bg-violet-50 rounded-2xl border-2 border-violet-100 p-2 md:p-3 space-y-1 animate-scale-in">
+    <div className="text-xs md:text-sm font-bold text-violet-500 flex items-center gap-1">
+      {entry.kind === 'DRAWING' ? <Pencil size={12} /> : <MessageSquare size={12} />}
+      {entry.playerName} {entry.kind === 'DRAWING' ? 'drew' : isFirst ? 'wrote' : 'guessed'}
+    </div>
+    {entry.kind === 'DRAWING'
+      ? <DrawingView drawing={entry.drawing || []} className="w-full aspect-[4/3] rounded-xl" />
+      : <p className="text-lg md:text-2xl font-black text-violet-900 break-words">{entry.text}</p>}
+  </div>
+);
+
+// Telephone mode: each player's task for the current step, then the chains revealed one link at a time
+export const TelephoneGame: React.FC<TelephoneGameProps> = ({
+  view, drawing, undoneOps, onDrawEvent, currentColor, onColorChange, onSubmit,
+  isHost, onRevealNext, onRestart
+}) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const timeLeft = useCountdown(view.timeLeft);
+
+  // A fresh step starts with an empty answer
+  useEffect(() => {
+    setText('');
+    setError(null);
+  }, [view.step]);
+
+  const handleSubmit = async () => {
+    setError(null);
+    const result = await onSubmit(view.task?.kind === 'DRAW' ? undefined : text);
+    if (!result.success) setError(result.error || 'Could not submit');
+  };
+
+  if (view.reveal) {
+    const { chains, done } = view.reveal;
+    return (
+      <div className="flex flex-col items-center min-h-screen p-3 md:p-6 overflow-y-auto scroll-container animate-fade-in">
+        <div className="bg-white text-violet-900 p-4 md:p-6 rounded-3xl shadow-2xl border-4 border-violet-300 max-w-2xl w-full space-y-4 my-4">
+          <h1 className="text-2xl md:text-4xl font-black text-violet-800 text-center flex items-center justify-center gap-2">
+            <Phone size={28} /> The Reveal
+          </h1>
+          {chains.map(chain => (
+            <div key={chain.id} className="space-y-2">
+              <h2 className="font-black text-violet-600 text-base md:text-lg">{chain.ownerName}'s chain</h2>
+              {chain.entries.map((entry, i) => <EntryCard key={i} entry={entry} isFirst={i === 0} />)}
+            </div>
+          ))}
+          {!done && (isHost ? (
+            <button
+              onClick={onRevealNext}
+              className="w-full py-3 bg-violet-600 text-white rounded-2xl font-bold text-lg hover:bg-violet-500 flex items-center justify-center gap-2"
+            >
+              Next <ChevronRight size={20} />
+            </button>
+          ) : (
+            <p className="text-center text-violet-500 font-bold animate-pulse">The host is revealing the chains...</p>
+          ))}
+          {done && (isHost ? (
+            <button
+              onClick={onRestart}
+              className="w-full py-3 md:py-4 bg-violet-800 text-white rounded-2xl font-bold text-lg md:text-xl hover:bg-violet-700 transition-all shadow-xl"
+            >
+              Back to Lobby
+            </button>
+          ) : (
+            <p className="text-center text-violet-500 font-bold animate-pulse">Waiting for the host to head back to the lobby...</p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const task = view.task;
+  const previous = task?.previous;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-3 md:p-6 gap-3 md:gap-4 overflow-y-auto scroll-container animate-fade-in">
+      <div className="w-full max-w-2xl flex items-center justify-between bg-white/95 rounded-2xl px-3 md:px-4 py-2 border-4 border-violet-200 text-violet-800 font-bold text-sm md:text-base">
+        <span className="flex items-center gap-2"><Phone size={18} /> Step {view.step + 1}/{view.totalSteps}</span>
+        <span className="text-violet-500">{view.submittedCount}/{view.totalSteps} done</span>
+        <span className={`flex items-center gap-1 font-mono ${timeLeft < 10 ? 'text-red-500 animate-pulse' : ''}`}>
+          <Clock size={16} /> {timeLeft}s
+        </span>
+      </div>
+
+      {!task ? (
+        <p className="text-violet-100 font-bold bg-black/20 px-4 py-2 rounded-full">This game started without you - you'll see everything at the reveal.</p>
+      ) : task.submitted ? (
+        <div className="bg-white rounded-3xl p-6 border-4 border-violet-300 text-center text-violet-800 font-bold space-y-2 max-w-md w-full">
+          <Check size={40} className="mx-auto text-green-500" />
+          <p>Done! Waiting for everyone else...</p>
+        </div>
+      ) : (
+        <div className="w-full max-w-2xl bg-white rounded-3xl p-3 md:p-5 border-4 border-violet-300 space-y-3 text-violet-900">
+          <h2 className="text-xl md:text-2xl font-black text-center">{STEP_TITLES[task.kind]}</h2>
+
+          {previous?.kind === 'TEXT' && (
+            <p className="text-center text-2xl md:text-3xl font-black text-violet-700 break-words">"{previous.text}"</p>
+          )}
+          {previous?.kind === 'DRAWING' && (
+            <DrawingView drawing={previous.drawing || []} className="w-full aspect-[4/3] rounded-xl border-2 border-violet-200" />
+          )}
+
+          {task.kind === 'DRAW' ? (
+            <div className="w-full aspect-[4/3] max-h-[65vh]">
+              <DrawingCanvas
+                drawing={drawing}
+                undoneOps={undoneOps}
+                onDrawEvent={onDrawEvent}
+                disabled={false}
+                currentColor={currentColor}
+                onColorChange={onColorChange}
+              />
+            </div>
+          ) : (
+            <input
+              type="text"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && text.trim() && handleSubmit()}
+              maxLength={MAX_TELEPHONE_TEXT_LENGTH}
+              placeholder={task.kind === 'PROMPT' ? 'e.g. A cat riding a bicycle' : 'Your best guess...'}
+              className="w-full bg-violet-50 border-2 border-violet-200 rounded-xl p-3 text-violet-900 focus:outline-none focus:border-violet-600 font-bold"
+              autoFocus
+            />
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={task.kind !== 'DRAW' && !text.trim()}
+            className="w-full py-3 bg-violet-600 text-white rounded-2xl font-bold text-lg hover:bg-violet-500 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Send size={18} /> {task.kind === 'DRAW' ? 'Done Drawing' : 'Submit'}
+          </button>
+          {error && <p className="text-xs text-red-500 font-bold text-center">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { Gavel } from 'lucide-react';
+import { VoteKick } from '../types';
+
+interface VoteKickBannerProps {
+  voteKick: VoteKick;
+  canVote: boolean;
+  onVote: () => void;
+}
+
+// Shows the open vote-kick with a countdown and a button to vote yes
+export const VoteKickBanner: React.FC<VoteKickBannerProps> = ({ voteKick, canVote, onVote }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((voteKick.expiresAt - now) / 1000));
+
+  return (
+    <div className="w-full flex items-center justify-between gap-2 bg-red-50 border-2 border-red-300 text-red-800 rounded-xl px-3 py-2 text-xs md:text-sm font-bold shadow-sm">
+      <span className="flex items-center gap-2">
+        <Gavel size={16} className="text-red-500 shrink-0" />
+        Kick {voteKick.targetName}? {voteKick.votes}/{voteKick.needed} votes • {secondsLeft}s
+      </span>
+      {canVote && !voteKick.hasVoted && (
+        <button onClick={onVote} className="px-3 py-1 rounded-lg bg-red-500 hover:bg-red-600 text-white shrink-0">
+          Vote Yes
+        </button>
+      )}
+      {voteKick.hasVoted && <span className="text-red-400 shrink-0">Voted</span>}
+    </div>
+  );
+};
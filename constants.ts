@@ -1,9 +1,82 @@
+import { RoomSettings, NumericRoomSetting, ChoiceRoomSetting, GamePhase } from './types';
+
 export const TOTAL_ROUNDS = 3;
 export const TURN_DURATION_SECONDS = 80;
 export const POINTS_DRAWER_ALL_GUESSED = 300;
 export const POINTS_GUESS_BASE = 500; // First guesser gets 500
 export const POINTS_GUESS_DECAY = 100; // Decreases by 100 for subsequent guessers
 
+// Longest guess / chat message the server accepts (mirrors server/chat.js)
+export const MAX_MESSAGE_LENGTH = 100;
+
+// Longest Telephone prompt or description (mirrors server/telephone.js)
+export const MAX_TELEPHONE_TEXT_LENGTH = 100;
+
+// Phases the host can pause (mirrors server/index.js)
+export const PAUSABLE_PHASES: GamePhase[] = [
+  GamePhase.ROUND_START,
+  GamePhase.WORD_SELECTION,
+  GamePhase.DRAWING,
+  GamePhase.TURN_END,
+  GamePhase.ROUND_END
+];
+
+// Host-configurable room settings (mirrors server/settings.js)
+export const SETTINGS_LIMITS: Record<NumericRoomSetting, { min: number; max: number; step: number }> = {
+  rounds: { min: 1, max: 10, step: 1 },
+  drawTime: { min: 30, max: 240, step: 10 },
+  maxPlayers: { min: 2, max: 16, step: 1 },
+  wordChoices: { min: 1, max: 5, step: 1 },
+  hintCount: { min: 0, max: 5, step: 1 },
+};
+
+export const SETTINGS_CHOICES: Record<ChoiceRoomSetting, { value: string; label: string }[]> = {
+  lateJoinScore: [
+    { value: 'ZERO', label: 'Start at 0' },
+    { value: 'LOWEST', label: 'Lowest score' },
+  ],
+  voteKick: [
+    { value: 'ON', label: 'On' },
+    { value: 'OFF', label: 'Off' },
+  ],
+  scoring: [
+    { value: 'RANK', label: 'Guess order' },
+    { value: 'TIME', label: 'Time left' },
+    { value: 'DRAWER_SHARE', label: 'Drawer shares' },
+  ],
+  teams: [
+    { value: 'OFF', label: 'Off' },
+    { value: '2', label: '2 teams' },
+    { value: '3', label: '3 teams' },
+    { value: '4', label: '4 teams' },
+  ],
+  mode: [
+    { value: 'CLASSIC', label: 'Classic' },
+    { value: 'TELEPHONE', label: 'Telephone' },
+  ],
+};
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  rounds: TOTAL_ROUNDS,
+  drawTime: TURN_DURATION_SECONDS,
+  maxPlayers: 8,
+  wordChoices: 3,
+  hintCount: 2,
+  lateJoinScore: 'ZERO',
+  voteKick: 'ON',
+  scoring: 'RANK',
+  teams: 'OFF',
+  mode: 'CLASSIC',
+};
+
+// Team names and colours, indexed by Player.teamId
+export const TEAMS = [
+  { name: 'Red', className: 'bg-red-50 border-red-300 text-red-800', dotClassName: 'bg-red-500' },
+  { name: 'Blue', className: 'bg-blue-50 border-blue-300 text-blue-800', dotClassName: 'bg-blue-500' },
+  { name: 'Green', className: 'bg-green-50 border-green-300 text-green-800', dotClassName: 'bg-green-500' },
+  { name: 'Yellow', className: 'bg-yellow-50 border-yellow-300 text-yellow-800', dotClassName: 'bg-yellow-400' },
+];
+
 export const MOCK_ROOMS = [
   { id: '101', name: "Picasso's Playground", isPrivate: false, playerCount: 3, maxPlayers: 8, status: 'WAITING' },
   { id: '102', name: "Doodlers Only", isPrivate: true, playerCount: 5, maxPlayers: 8, status: 'PLAYING' },
@@ -0,0 +1,80 @@
+import { useEffect, useRef, RefObject } from 'react';
+import { DrawingOp } from '../types';
+import { createDrawingCache, renderDrawingCached, DrawingCache, CANVAS_WIDTH, CANVAS_HEIGHT } from '../services/drawing';
+
+// Keeps a canvas fitted to its container (at the fixed logical aspect ratio, sharp on any
+// device pixel ratio) and draws the operation list whenever it changes - only the new
+// operations, on top of the finished drawing it keeps offscreen
+export const useDrawingRenderer = (
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  containerRef: RefObject<HTMLDivElement | null>,
+  ops: DrawingOp[]
+) => {
+  const opsRef = useRef(ops);
+  const frameRef = useRef<number | null>(null);
+  const cacheRef = useRef<DrawingCache | null>(null);
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) {
+      if (!cacheRef.current) cacheRef.current = createDrawingCache();
+      renderDrawingCached(ctx, opsRef.current, canvas.width / CANVAS_WIDTH, cacheRef.current);
+    }
+  };
+
+  // Handle resize - the drawing is rebuilt from operations, so nothing is lost
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    const updateSize = () => {
+      // Largest box with the logical aspect ratio that fits the container
+      const scale = Math.min(container.clientWidth / CANVAS_WIDTH, container.clientHeight / CANVAS_HEIGHT);
+      if (!(scale > 0)) return;
+
+      const cssWidth = Math.floor(CANVAS_WIDTH * scale);
+      const cssHeight = Math.floor(CANVAS_HEIGHT * scale);
+      const dpr = window.devicePixelRatio || 1;
+
+      canvas.style.width = `${cssWidth}px`;
+      canvas.style.height = `${cssHeight}px`;
+      canvas.width = Math.round(cssWidth * dpr);
+      canvas.height = Math.round(cssHeight * dpr);
+      redraw();
+    };
+
+    updateSize();
+    // The container can change size without the window resizing (layout, rotation)
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(container);
+    window.addEventListener('resize', updateSize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', updateSize);
+    };
+  }, []);
+
+  // Redraw on the next animation frame so bursts of stroke events render once
+  useEffect(() => {
+    opsRef.current = ops;
+    if (frameRef.current !== null) return;
+
+    frameRef.current = window.requestAnimationFrame(() => {
+      frameRef.current = null;
+      redraw();
+    });
+  }, [ops]);
+
+  // Cancel any pending frame on unmount
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) {
+        window.cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, []);
+};
+
+export default useDrawingRenderer;
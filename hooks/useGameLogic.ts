@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
-import { GamePhase, GameState, Player, WordOption, PlayerType, Room, AvatarConfig } from '../types';
+import { GamePhase, GameState, Player, WordOption, PlayerType, Room, AvatarConfig, DrawEvent } from '../types';
 import { TOTAL_ROUNDS, TURN_DURATION_SECONDS, POINTS_GUESS_BASE, POINTS_GUESS_DECAY, POINTS_DRAWER_ALL_GUESSED, MOCK_ROOMS } from '../constants';
 import { generateWordOptions } from '../services/words';
+import { applyDrawEvent } from '../services/drawing';
 import confetti from 'canvas-confetti';
 
 const STORAGE_KEY = 'drawit_gamestate_v1';
@@ -26,10 +27,12 @@ export const useGameLogic = () => {
       players: [],
       currentPlayerIndex: 0,
       currentWord: null,
+      maskedWord: null,
       wordOptions: [],
       timeLeft: 0,
       messages: [],
-      canvasData: null,
+      drawing: [],
+      undoneOps: [],
       drawingImageUrl: null,
       winner: null,
       currentRoom: null,
@@ -220,7 +223,8 @@ export const useGameLogic = () => {
         players: prev.players.map(p => ({ ...p, hasGuessedCorrectly: false })),
         currentWord: null,
         drawingImageUrl: null,
-        canvasData: null,
+        drawing: [],
+        undoneOps: [],
         messages: [],
     }));
 
@@ -390,8 +394,8 @@ export const useGameLogic = () => {
     }
   }, [gameState.phase, gameState.currentRound]);
 
-  const updateCanvasData = (base64: string) => {
-    setGameState(prev => ({ ...prev, canvasData: base64 }));
+  const handleDrawEvent = (event: DrawEvent) => {
+    setGameState(prev => ({ ...prev, drawing: applyDrawEvent(prev.drawing || [], event) }));
   };
 
   return {
@@ -405,7 +409,7 @@ export const useGameLogic = () => {
     startGame,
     handleWordSelection,
     submitHumanGuess,
-    updateCanvasData,
+    handleDrawEvent,
     restartGame: () => {
         localStorage.removeItem(STORAGE_KEY);
         window.location.reload();
@@ -1,31 +1,102 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { GameState, Player, Room, WordOption, ChatMessage, AvatarConfig, GamePhase } from '../types';
+import { GameState, Player, Spectator, VoteKick, KickInfo, ChatResult, Room, RoomSettings, CustomWordList, CustomWordMode, WordOption, ChatMessage, AvatarConfig, GamePhase, DrawEvent, DrawingOp, StrokePoint, GalleryEntry, PlayerProfile, ProfileClaim, GameRecord, GameRecordTurn, TelephoneView } from '../types';
+import { applyDrawEvent, applyUndoHistory } from '../services/drawing';
 
 // Server URL - use environment variable in production
 const SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3001';
 
+// How often buffered stroke points and shape updates are flushed to the server
+const STROKE_FLUSH_MS = 40;
+
+// Apply a draw event to the drawing and its redo history
+const withDrawEvent = (state: GameState, event: DrawEvent): GameState => ({
+  ...state,
+  drawing: applyDrawEvent(state.drawing, event),
+  undoneOps: applyUndoHistory(state.undoneOps, state.drawing, event)
+});
+
+// Room session persisted so a refresh or dropped connection can rejoin the same seat
+const SESSION_KEY = 'drawit_session';
+
+interface StoredSession {
+  roomCode: string;
+  password: string | null;
+  player: Player;
+  spectate?: boolean;
+  profile?: ProfileClaim | null;
+  seatToken?: string; // proves the seat is ours when rejoining - the server hands it out on joining
+}
+
+const loadSession = (): StoredSession | null => {
+  try {
+    const saved = sessionStorage.getItem(SESSION_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error('Failed to load room session:', e);
+    return null;
+  }
+};
+
+const saveSession = (session: StoredSession) => {
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+const clearSession = () => {
+  sessionStorage.removeItem(SESSION_KEY);
+};
+
+// Profile claim persisted across sessions - the token is the only proof the profile is ours
+const PROFILE_KEY = 'drawit_profile';
+
+const loadProfileClaim = (): ProfileClaim | null => {
+  try {
+    const saved = localStorage.getItem(PROFILE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error('Failed to load profile:', e);
+    return null;
+  }
+};
+
+const saveProfileClaim = (claim: ProfileClaim) => {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify(claim));
+};
+
 interface RoomState {
   room: {
     id: string;
     name: string;
     isPrivate: boolean;
     playerCount: number;
+    spectatorCount: number;
     maxPlayers: number;
     status: 'WAITING' | 'PLAYING';
     hostId: string;
+    settings: RoomSettings;
+    customWords: { mode: CustomWordMode; count: number } | null;
   };
   players: Player[];
+  spectators: Spectator[];
+  voteKick: VoteKick | null;
   gameState: {
     phase: GamePhase;
     currentRound: number;
     totalRounds: number;
     currentPlayerIndex: number;
+    drawerId?: string | null;
+    // Only sent to the drawer, players who guessed, and everyone once the turn ends
     currentWord: WordOption | null;
-    wordOptions: WordOption[];
+    // Word length, spaces and revealed hint letters; hidden letters are '_'
+    maskedWord: string | null;
+    wordOptions?: WordOption[];
     timeLeft: number;
+    paused?: boolean;
+    rerollsLeft?: number;
     messages: ChatMessage[];
-    canvasData: string | null;
+    gameId?: string | null;
+    turnSummary?: GameRecordTurn | null;
+    telephone?: TelephoneView | null;
   } | null;
 }
 
@@ -34,21 +105,45 @@ interface UseSocketReturn {
   isConnected: boolean;
   currentRoom: Room | null;
   players: Player[];
+  spectators: Spectator[];
+  voteKick: VoteKick | null;
+  kickInfo: KickInfo | null;
   gameState: GameState | null;
   wordOptions: WordOption[];
+  gallery: GalleryEntry[];
+  profile: PlayerProfile | null;
   playerId: string | null;
   
   // Actions
-  createRoom: (roomName: string, isPrivate: boolean, password?: string) => Promise<Room | null>;
-  joinRoom: (roomCode: string, password: string | null, player: Player) => Promise<boolean>;
+  createRoom: (roomName: string, isPrivate: boolean, password?: string, settings?: RoomSettings, customWords?: CustomWordList | null) => Promise<Room | null>;
+  joinRoom: (roomCode: string, password: string | null, player: Player, spectate?: boolean) => Promise<boolean>;
   leaveRoom: () => void;
   getPublicRooms: () => Promise<Room[]>;
+  updateSettings: (settings: RoomSettings) => Promise<boolean>;
+  addBot: () => Promise<boolean>;
+  removeBot: (botId: string) => Promise<boolean>;
+  setTeam: (playerId: string, teamId: number) => Promise<boolean>;
+  balanceTeams: () => Promise<boolean>;
+  kickPlayer: (playerId: string, ban?: boolean) => Promise<boolean>;
+  transferHost: (playerId: string) => Promise<boolean>;
+  startVoteKick: (playerId: string) => Promise<boolean>;
+  castVoteKick: () => Promise<boolean>;
+  dismissKick: () => void;
   startGame: () => Promise<boolean>;
   selectWord: (word: WordOption) => Promise<boolean>;
-  updateDrawing: (canvasData: string) => void;
-  submitGuess: (text: string) => Promise<{ isCorrect: boolean; points?: number }>;
-  sendChatMessage: (text: string) => void;
+  rerollWords: () => Promise<boolean>;
+  pauseGame: () => Promise<boolean>;
+  resumeGame: () => Promise<boolean>;
+  skipTurn: () => Promise<boolean>;
+  sendDrawEvent: (event: DrawEvent) => void;
+  submitGuess: (text: string) => Promise<ChatResult & { isCorrect: boolean; isClose?: boolean; points?: number }>;
+  sendChatMessage: (text: string) => Promise<ChatResult>;
+  submitTelephone: (text?: string) => Promise<ChatResult>;
+  revealTelephoneNext: () => Promise<boolean>;
   restartGame: () => void;
+  saveProfile: (name: string, avatar: AvatarConfig) => Promise<PlayerProfile | null>;
+  refreshProfile: () => Promise<PlayerProfile | null>;
+  getGameRecord: (gameId: string) => Promise<GameRecord | null>;
 }
 
 export const useSocket = (): UseSocketReturn => {
@@ -56,9 +151,20 @@ export const useSocket = (): UseSocketReturn => {
   const [isConnected, setIsConnected] = useState(false);
   const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [spectators, setSpectators] = useState<Spectator[]>([]);
+  const [voteKick, setVoteKick] = useState<VoteKick | null>(null);
+  const [kickInfo, setKickInfo] = useState<KickInfo | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [wordOptions, setWordOptions] = useState<WordOption[]>([]);
+  const [gallery, setGallery] = useState<GalleryEntry[]>([]);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
   const [playerId, setPlayerId] = useState<string | null>(null);
+  
+  // Stroke points waiting to be sent, batched to keep socket traffic down
+  const pendingPointsRef = useRef<{ id: string; points: StrokePoint[] } | null>(null);
+  // Only the latest end point of a shape being dragged matters
+  const pendingShapeRef = useRef<{ id: string; to: StrokePoint } | null>(null);
+  const flushTimeoutRef = useRef<number | null>(null);
 
   // Initialize socket connection
   useEffect(() => {
@@ -72,6 +178,20 @@ export const useSocket = (): UseSocketReturn => {
     socket.on('connect', () => {
       console.log('Connected to server:', socket.id);
       setIsConnected(true);
+
+      // Rejoin our seat automatically after a refresh or network switch
+      const session = loadSession();
+      if (session) {
+        socket.emit('join-room', session, (response: { success: boolean; error?: string }) => {
+          if (response.success) {
+            console.log('Rejoined room:', session.roomCode);
+            setPlayerId(session.player.id);
+          } else {
+            console.warn('Could not rejoin room:', response.error);
+            clearSession();
+          }
+        });
+      }
     });
 
     socket.on('disconnect', () => {
@@ -95,8 +215,12 @@ export const useSocket = (): UseSocketReturn => {
           isPrivate: data.room.isPrivate,
           password: undefined,
           playerCount: data.room.playerCount,
+          spectatorCount: data.room.spectatorCount,
           maxPlayers: data.room.maxPlayers,
-          status: data.room.status
+          status: data.room.status,
+          hostId: data.room.hostId,
+          settings: data.room.settings,
+          customWords: data.room.customWords
         });
       }
       
@@ -104,35 +228,75 @@ export const useSocket = (): UseSocketReturn => {
         setPlayers(data.players);
       }
       
+      if (data.spectators) {
+        setSpectators(data.spectators);
+      }
+      
+      setVoteKick(data.voteKick || null);
+      
       if (data.gameState) {
-        setGameState({
-          phase: data.gameState.phase,
-          currentRound: data.gameState.currentRound,
-          totalRounds: data.gameState.totalRounds,
+        const serverState = data.gameState;
+        setGameState(prev => ({
+          phase: serverState.phase,
+          currentRound: serverState.currentRound,
+          totalRounds: serverState.totalRounds,
           players: data.players || [],
-          currentPlayerIndex: data.gameState.currentPlayerIndex,
-          currentWord: data.gameState.currentWord,
-          wordOptions: data.gameState.wordOptions || [],
-          timeLeft: data.gameState.timeLeft,
-          messages: data.gameState.messages || [],
-          canvasData: data.gameState.canvasData,
+          currentPlayerIndex: serverState.currentPlayerIndex,
+          drawerId: serverState.drawerId || null,
+          currentWord: serverState.currentWord,
+          maskedWord: serverState.maskedWord,
+          wordOptions: serverState.wordOptions || [],
+          timeLeft: serverState.timeLeft,
+          paused: serverState.paused || false,
+          rerollsLeft: serverState.rerollsLeft || 0,
+          messages: serverState.messages || [],
+          // Strokes arrive separately via 'draw-event' / 'drawing-sync'
+          drawing: prev?.drawing || [],
+          undoneOps: prev?.undoneOps || [],
           drawingImageUrl: null,
           winner: null,
           currentRoom: currentRoom,
-          usedWords: []
-        });
+          usedWords: [],
+          gameId: serverState.gameId || null,
+          turnSummary: serverState.turnSummary || null,
+          telephone: serverState.telephone || null
+        }));
       }
     });
 
+    // Removed by the host or a vote - forget the room so we don't auto-rejoin
+    socket.on('kicked', (data: KickInfo) => {
+      console.log('Kicked from room:', data);
+      clearSession();
+      setKickInfo(data);
+      setCurrentRoom(null);
+      setPlayers([]);
+      setSpectators([]);
+      setGallery([]);
+      setVoteKick(null);
+      setGameState(null);
+      setWordOptions([]);
+    });
+
     // Word options (sent only to drawer)
     socket.on('word-options', (data: { words: WordOption[] }) => {
       console.log('Word options received:', data.words);
       setWordOptions(data.words);
     });
 
-    // Drawing updates from other players
-    socket.on('drawing-updated', (data: { canvasData: string }) => {
-      setGameState(prev => prev ? { ...prev, canvasData: data.canvasData } : null);
+    // Live stroke events from the drawer
+    socket.on('draw-event', (event: DrawEvent) => {
+      setGameState(prev => prev ? withDrawEvent(prev, event) : null);
+    });
+
+    // Full drawing snapshot (on join and when a new turn starts)
+    socket.on('drawing-sync', (data: { drawing: DrawingOp[] }) => {
+      setGameState(prev => prev ? { ...prev, drawing: data.drawing || [], undoneOps: [] } : null);
+    });
+
+    // Finished drawings for the results screen
+    socket.on('gallery', (data: { gallery: GalleryEntry[] }) => {
+      setGallery(data.gallery || []);
     });
 
     // Timer updates
@@ -141,21 +305,23 @@ export const useSocket = (): UseSocketReturn => {
     });
 
     return () => {
+      if (flushTimeoutRef.current) window.clearTimeout(flushTimeoutRef.current);
       socket.disconnect();
     };
   }, []);
 
   // Create a room
-  const createRoom = useCallback(async (roomName: string, isPrivate: boolean, password?: string): Promise<Room | null> => {
+  const createRoom = useCallback(async (roomName: string, isPrivate: boolean, password?: string, settings?: RoomSettings, customWords?: CustomWordList | null): Promise<Room | null> => {
     const socket = socketRef.current;
     if (!socket) return null;
 
     return new Promise((resolve) => {
-      socket.emit('create-room', { roomName, isPrivate, password }, (response: { success: boolean; room?: Room; error?: string }) => {
+      socket.emit('create-room', { roomName, isPrivate, password, settings, customWords }, (response: { success: boolean; room?: Room; error?: string }) => {
         if (response.success && response.room) {
           resolve(response.room);
         } else {
           console.error('Failed to create room:', response.error);
+          alert(response.error || 'Failed to create room');
           resolve(null);
         }
       });
@@ -163,15 +329,18 @@ export const useSocket = (): UseSocketReturn => {
   }, []);
 
   // Join a room
-  const joinRoom = useCallback(async (roomCode: string, password: string | null, player: Player): Promise<boolean> => {
+  const joinRoom = useCallback(async (roomCode: string, password: string | null, player: Player, spectate = false): Promise<boolean> => {
     const socket = socketRef.current;
     if (!socket) return false;
 
     setPlayerId(player.id);
 
     return new Promise((resolve) => {
-      socket.emit('join-room', { roomCode, password, player }, (response: { success: boolean; error?: string }) => {
+      const profile = loadProfileClaim();
+      socket.emit('join-room', { roomCode, password, player, spectate, profile }, (response: { success: boolean; error?: string; seatToken?: string; spectating?: boolean }) => {
         if (response.success) {
+          // The server can seat us as a spectator (joining a Telephone game in progress)
+          saveSession({ roomCode, password, player, spectate: response.spectating ?? spectate, profile, seatToken: response.seatToken });
           resolve(true);
         } else {
           console.error('Failed to join room:', response.error);
@@ -187,9 +356,12 @@ export const useSocket = (): UseSocketReturn => {
     const socket = socketRef.current;
     if (!socket) return;
 
+    clearSession();
     socket.emit('leave-room', () => {
       setCurrentRoom(null);
       setPlayers([]);
+      setSpectators([]);
+      setGallery([]);
       setGameState(null);
       setWordOptions([]);
     });
@@ -207,6 +379,146 @@ export const useSocket = (): UseSocketReturn => {
     });
   }, []);
 
+  // Update room settings (host only, in the lobby)
+  const updateSettings = useCallback(async (settings: RoomSettings): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('update-settings', { settings }, (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to update settings');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Add a bot player (host only, in the lobby)
+  const addBot = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('add-bot', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to add bot');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Remove a bot player (host only, in the lobby)
+  const removeBot = useCallback(async (botId: string): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('remove-bot', { botId }, (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to remove bot');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Move a player to another team (host only, in the lobby)
+  const setTeam = useCallback(async (targetId: string, teamId: number): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('set-team', { playerId: targetId, teamId }, (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to change team');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Shuffle players into even teams (host only, in the lobby)
+  const balanceTeams = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('balance-teams', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to balance teams');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Kick (and optionally ban) a player (host only)
+  const kickPlayer = useCallback(async (targetId: string, ban = false): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('kick-player', { playerId: targetId, ban }, (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to kick player');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Hand host rights to another player (host only)
+  const transferHost = useCallback(async (targetId: string): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('transfer-host', { playerId: targetId }, (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to transfer host');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Start a vote to kick a player (while the host is away)
+  const startVoteKick = useCallback(async (targetId: string): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('start-vote-kick', { playerId: targetId }, (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to start vote');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Vote yes on the open vote-kick
+  const castVoteKick = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('vote-kick', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to vote');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Acknowledge the kick screen
+  const dismissKick = useCallback(() => {
+    setKickInfo(null);
+  }, []);
+
   // Start the game (host only)
   const startGame = useCallback(async (): Promise<boolean> => {
     const socket = socketRef.current;
@@ -237,32 +549,172 @@ export const useSocket = (): UseSocketReturn => {
     });
   }, []);
 
-  // Update drawing
-  const updateDrawing = useCallback((canvasData: string) => {
+  // Swap the word options for a fresh set (drawer only, once per turn).
+  // The new options arrive through 'word-options'.
+  const rerollWords = useCallback(async (): Promise<boolean> => {
     const socket = socketRef.current;
-    if (!socket) return;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('reroll-words', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to reroll words');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Pause the game (host only)
+  const pauseGame = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('pause-game', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to pause the game');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Resume a paused game (host only)
+  const resumeGame = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('resume-game', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to resume the game');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
+
+  // Skip the current turn (host only)
+  const skipTurn = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('skip-turn', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to skip the turn');
+        }
+        resolve(response.success);
+      });
+    });
+  }, []);
 
-    socket.emit('draw-update', { canvasData });
+  // Send any buffered stroke points and shape updates
+  const flushPendingDraw = useCallback(() => {
+    if (flushTimeoutRef.current) {
+      window.clearTimeout(flushTimeoutRef.current);
+      flushTimeoutRef.current = null;
+    }
+
+    const pending = pendingPointsRef.current;
+    pendingPointsRef.current = null;
+    if (pending && pending.points.length > 0) {
+      socketRef.current?.emit('draw-event', { type: 'stroke-points', id: pending.id, points: pending.points });
+    }
+
+    const shape = pendingShapeRef.current;
+    pendingShapeRef.current = null;
+    if (shape) {
+      socketRef.current?.emit('draw-event', { type: 'shape-update', id: shape.id, to: shape.to });
+    }
   }, []);
 
+  // Apply a draw event locally and send it to the room (drawer only)
+  const sendDrawEvent = useCallback((event: DrawEvent) => {
+    const socket = socketRef.current;
+    if (!socket) return;
+
+    setGameState(prev => prev ? withDrawEvent(prev, event) : null);
+
+    // Points and shape updates are batched; every other event flushes the batch first to keep ordering
+    if (event.type === 'stroke-points') {
+      const pending = pendingPointsRef.current;
+      if (pending && pending.id !== event.id) flushPendingDraw();
+
+      if (pendingPointsRef.current) {
+        pendingPointsRef.current.points.push(...event.points);
+      } else {
+        pendingPointsRef.current = { id: event.id, points: [...event.points] };
+      }
+    } else if (event.type === 'shape-update') {
+      const pending = pendingShapeRef.current;
+      if (pending && pending.id !== event.id) flushPendingDraw();
+
+      pendingShapeRef.current = { id: event.id, to: event.to };
+    } else {
+      flushPendingDraw();
+      socket.emit('draw-event', event);
+      return;
+    }
+
+    if (!flushTimeoutRef.current) {
+      flushTimeoutRef.current = window.setTimeout(flushPendingDraw, STROKE_FLUSH_MS);
+    }
+  }, [flushPendingDraw]);
+
   // Submit a guess
-  const submitGuess = useCallback(async (text: string): Promise<{ isCorrect: boolean; points?: number }> => {
+  const submitGuess = useCallback(async (text: string): Promise<ChatResult & { isCorrect: boolean; isClose?: boolean; points?: number }> => {
     const socket = socketRef.current;
-    if (!socket) return { isCorrect: false };
+    if (!socket) return { success: false, isCorrect: false };
 
     return new Promise((resolve) => {
-      socket.emit('submit-guess', { text }, (response: { success: boolean; isCorrect: boolean; points?: number }) => {
-        resolve({ isCorrect: response.isCorrect, points: response.points });
+      socket.emit('submit-guess', { text }, (response: ChatResult & { isCorrect?: boolean; isClose?: boolean; points?: number }) => {
+        resolve({ ...response, isCorrect: !!response.isCorrect });
+      });
+    });
+  }, []);
+
+  // Hand in this step's prompt, description or (without text) drawing - Telephone mode
+  const submitTelephone = useCallback(async (text?: string): Promise<ChatResult> => {
+    const socket = socketRef.current;
+    if (!socket) return { success: false };
+
+    // Strokes still waiting in the batch belong to the drawing being handed in
+    flushPendingDraw();
+
+    return new Promise((resolve) => {
+      socket.emit('telephone-submit', { text }, (response: ChatResult) => {
+        resolve(response);
+      });
+    });
+  }, [flushPendingDraw]);
+
+  // Show the next link of the Telephone reveal (host only)
+  const revealTelephoneNext = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('telephone-reveal-next', (response: { success: boolean; error?: string }) => {
+        if (!response.success) {
+          alert(response.error || 'Failed to reveal');
+        }
+        resolve(response.success);
       });
     });
   }, []);
 
   // Send chat message
-  const sendChatMessage = useCallback((text: string) => {
+  const sendChatMessage = useCallback(async (text: string): Promise<ChatResult> => {
     const socket = socketRef.current;
-    if (!socket) return;
+    if (!socket) return { success: false };
 
-    socket.emit('chat-message', { text });
+    return new Promise((resolve) => {
+      socket.emit('chat-message', { text }, (response: ChatResult) => {
+        resolve(response);
+      });
+    });
   }, []);
 
   // Restart game
@@ -275,24 +727,108 @@ export const useSocket = (): UseSocketReturn => {
     });
   }, []);
 
+  // Save our name and avatar to the profile (creates one the first time)
+  const saveProfile = useCallback(async (name: string, avatar: AvatarConfig): Promise<PlayerProfile | null> => {
+    const socket = socketRef.current;
+    if (!socket) return null;
+
+    const claim = loadProfileClaim();
+    return new Promise((resolve) => {
+      socket.emit('save-profile', { id: claim?.id, token: claim?.token, name, avatar }, (response: { success: boolean; profile?: PlayerProfile; token?: string; error?: string }) => {
+        if (response.success && response.profile && response.token) {
+          saveProfileClaim({ id: response.profile.id, token: response.token });
+          setProfile(response.profile);
+          resolve(response.profile);
+        } else {
+          console.error('Failed to save profile:', response.error);
+          resolve(null);
+        }
+      });
+    });
+  }, []);
+
+  // Fetch our profile (with up-to-date stats) from the server
+  const refreshProfile = useCallback(async (): Promise<PlayerProfile | null> => {
+    const claim = loadProfileClaim();
+    if (!claim) return null;
+
+    try {
+      const response = await fetch(`${SERVER_URL}/profiles/${encodeURIComponent(claim.id)}`);
+      if (!response.ok) return null;
+      const data: { profile: PlayerProfile } = await response.json();
+      setProfile(data.profile);
+      return data.profile;
+    } catch (e) {
+      console.error('Failed to load profile:', e);
+      return null;
+    }
+  }, []);
+
+  // Fetch the match history record of a finished game
+  const getGameRecord = useCallback(async (gameId: string): Promise<GameRecord | null> => {
+    try {
+      // Games from private rooms are only served to someone seated in the room
+      const session = loadSession();
+      const headers: Record<string, string> = session?.seatToken
+        ? { 'X-Player-Id': session.player.id, 'X-Seat-Token': session.seatToken }
+        : {};
+      const response = await fetch(`${SERVER_URL}/games/${encodeURIComponent(gameId)}`, { headers });
+      if (!response.ok) return null;
+      const data: { game: GameRecord } = await response.json();
+      return data.game;
+    } catch (e) {
+      console.error('Failed to load game record:', e);
+      return null;
+    }
+  }, []);
+
+  // Pick up a profile saved in an earlier visit
+  useEffect(() => {
+    refreshProfile();
+  }, [refreshProfile]);
+
   return {
     socket: socketRef.current,
     isConnected,
     currentRoom,
     players,
+    spectators,
+    voteKick,
+    kickInfo,
     gameState,
     wordOptions,
+    gallery,
+    profile,
     playerId,
     createRoom,
     joinRoom,
     leaveRoom,
     getPublicRooms,
+    updateSettings,
+    addBot,
+    removeBot,
+    setTeam,
+    balanceTeams,
+    kickPlayer,
+    transferHost,
+    startVoteKick,
+    castVoteKick,
+    dismissKick,
     startGame,
     selectWord,
-    updateDrawing,
+    rerollWords,
+    pauseGame,
+    resumeGame,
+    skipTurn,
+    sendDrawEvent,
     submitGuess,
     sendChatMessage,
-    restartGame
+    submitTelephone,
+    revealTelephoneNext,
+    restartGame,
+    saveProfile,
+    refreshProfile,
+    getGameRecord
   };
 };
 
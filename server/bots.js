@@ -0,0 +1,184 @@
+// Bot players for DrawIt multiplayer
+
+import { getRandomWords } from './words.js';
+
+const BOT_NAMES = ['Botticelli', 'Pixel', 'Doodlebot', 'Sketchy', 'Robo Rembrandt', 'Scribbles', 'Vincent Bot', 'Crayola'];
+const BOT_COLORS = ['#EF4444', '#F97316', '#EAB308', '#22C55E', '#3B82F6', '#A855F7', '#EC4899'];
+const BOT_SHAPES = ['circle', 'square', 'rounded'];
+
+// Size of the area bot drawings are scaled to (the shared logical canvas)
+export const BOT_CANVAS = { width: 800, height: 600 };
+
+// Bot guessing behaviour (fractions of the draw time / seconds)
+export const BOT_GUESS_EARLIEST = 0.25;
+export const BOT_GUESS_LATEST = 1.1; // Past 1.0 the bot never gets it
+export const BOT_WRONG_GUESS_MIN_SECONDS = 6;
+export const BOT_WRONG_GUESS_MAX_SECONDS = 14;
+
+const randomItem = (items) => items[Math.floor(Math.random() * items.length)];
+const randomBetween = (min, max) => min + Math.random() * (max - min);
+
+// Create a bot player with a name not already used in the room
+export const createBot = (players) => {
+  const usedNames = new Set(players.map(p => p.name));
+  const name = BOT_NAMES.find(n => !usedNames.has(n)) || `Bot ${players.length + 1}`;
+
+  return {
+    id: `bot-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+    name,
+    type: 'BOT',
+    score: 0,
+    avatar: {
+      color: randomItem(BOT_COLORS),
+      shape: randomItem(BOT_SHAPES),
+      accessory: '🤖'
+    },
+    hasGuessedCorrectly: false,
+    isConnected: true
+  };
+};
+
+export const isBot = (player) => Boolean(player) && player.type === 'BOT';
+
+// --- Guessing ---
+
+// When (seconds into the turn) a bot will guess correctly, or null if it won't
+export const pickCorrectGuessTime = (drawTime) => {
+  const at = drawTime * randomBetween(BOT_GUESS_EARLIEST, BOT_GUESS_LATEST);
+  return at < drawTime ? Math.round(at) : null;
+};
+
+// Delay before the bot's next wrong guess (ms)
+export const nextWrongGuessDelay = () =>
+  Math.round(randomBetween(BOT_WRONG_GUESS_MIN_SECONDS, BOT_WRONG_GUESS_MAX_SECONDS) * 1000);
+
+// A plausible wrong guess - another word of similar length where possible
+export const generateWrongGuess = (targetWord) => {
+  const candidates = getRandomWords(20, [targetWord]);
+  const similar = candidates.filter(w => Math.abs(w.length - targetWord.length) <= 2);
+  return (randomItem(similar.length > 0 ? similar : candidates) || '???').toLowerCase();
+};
+
+// --- Drawing ---
+
+// Stroke helpers in a normalized 0..1 space
+const circle = (cx, cy, r, steps = 24) =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const a = (i / steps) * Math.PI * 2;
+    return [cx + Math.cos(a) * r, cy + Math.sin(a) * r];
+  });
+
+const arc = (cx, cy, r, from, to, steps = 12) =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const a = from + (i / steps) * (to - from);
+    return [cx + Math.cos(a) * r, cy + Math.sin(a) * r];
+  });
+
+const stroke = (color, width, points) => ({ color, width, points });
+
+// Pre-recorded drawings keyed by word (lower case)
+const BOT_DRAWINGS = {
+  house: [
+    stroke('#78350F', 5, [[0.3, 0.45], [0.3, 0.85], [0.7, 0.85], [0.7, 0.45], [0.3, 0.45]]),
+    stroke('#EF4444', 5, [[0.25, 0.47], [0.5, 0.2], [0.75, 0.47]]),
+    stroke('#78350F', 5, [[0.45, 0.85], [0.45, 0.65], [0.55, 0.65], [0.55, 0.85]]),
+  ],
+  sun: [
+    stroke('#EAB308', 8, circle(0.5, 0.5, 0.15)),
+    ...Array.from({ length: 8 }, (_, i) => {
+      const a = (i / 8) * Math.PI * 2;
+      return stroke('#F97316', 5, [
+        [0.5 + Math.cos(a) * 0.2, 0.5 + Math.sin(a) * 0.2],
+        [0.5 + Math.cos(a) * 0.3, 0.5 + Math.sin(a) * 0.3]
+      ]);
+    }),
+  ],
+  moon: [
+    stroke('#EAB308', 6, arc(0.5, 0.5, 0.25, Math.PI * 0.3, Math.PI * 1.7, 20)),
+    stroke('#EAB308', 6, arc(0.62, 0.5, 0.2, Math.PI * 0.45, Math.PI * 1.55, 16)),
+  ],
+  tree: [
+    stroke('#78350F', 10, [[0.5, 0.9], [0.5, 0.55]]),
+    stroke('#22C55E', 8, circle(0.5, 0.38, 0.2)),
+  ],
+  fish: [
+    stroke('#3B82F6', 5, [[0.3, 0.5], [0.45, 0.35], [0.6, 0.4], [0.7, 0.5], [0.6, 0.6], [0.45, 0.65], [0.3, 0.5]]),
+    stroke('#3B82F6', 5, [[0.7, 0.5], [0.82, 0.38], [0.82, 0.62], [0.7, 0.5]]),
+    stroke('#000000', 6, [[0.38, 0.47], [0.38, 0.47]]),
+  ],
+  apple: [
+    stroke('#EF4444', 6, circle(0.5, 0.55, 0.2)),
+    stroke('#78350F', 5, [[0.5, 0.35], [0.52, 0.22]]),
+    stroke('#22C55E', 5, [[0.52, 0.28], [0.62, 0.22], [0.55, 0.3]]),
+  ],
+  car: [
+    stroke('#3B82F6', 6, [[0.2, 0.65], [0.2, 0.5], [0.35, 0.5], [0.42, 0.38], [0.62, 0.38], [0.7, 0.5], [0.8, 0.5], [0.8, 0.65], [0.2, 0.65]]),
+    stroke('#000000', 6, circle(0.32, 0.68, 0.06, 12)),
+    stroke('#000000', 6, circle(0.68, 0.68, 0.06, 12)),
+  ],
+  smiley: [
+    stroke('#EAB308', 6, circle(0.5, 0.5, 0.3)),
+    stroke('#000000', 8, [[0.4, 0.42], [0.4, 0.42]]),
+    stroke('#000000', 8, [[0.6, 0.42], [0.6, 0.42]]),
+    stroke('#000000', 5, arc(0.5, 0.52, 0.15, Math.PI * 0.15, Math.PI * 0.85)),
+  ],
+};
+
+// Add in-between points so long segments replay smoothly instead of jumping
+const densify = (points, spacing = 12) => {
+  const result = points.slice(0, 1);
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+    for (let step = 1; step <= steps; step++) {
+      result.push({
+        x: Math.round(from.x + (to.x - from.x) * (step / steps)),
+        y: Math.round(from.y + (to.y - from.y) * (step / steps))
+      });
+    }
+  }
+  return result;
+};
+
+const drawingKey = (word) => String(word || '').toLowerCase();
+
+// Whether a bot knows how to draw a word
+export const hasBotDrawing = (word) => Object.hasOwn(BOT_DRAWINGS, drawingKey(word));
+
+// A word option a bot can draw, for when none of the words it was offered are
+export const pickBotWordOption = () => {
+  const key = randomItem(Object.keys(BOT_DRAWINGS));
+  return { word: key[0].toUpperCase() + key.slice(1), category: 'THING' };
+};
+
+// Get a stroke list scaled to the bot canvas. Words without a drawing get no strokes - another
+// word's picture would only mislead the guessers.
+export const getBotDrawing = (word) => {
+  const drawing = BOT_DRAWINGS[drawingKey(word)] || [];
+
+  return drawing.map(s => ({
+    color: s.color,
+    width: s.width,
+    points: densify(s.points.map(([x, y]) => ({
+      x: x * BOT_CANVAS.width,
+      y: y * BOT_CANVAS.height
+    })))
+  }));
+};
+
+export default {
+  BOT_CANVAS,
+  BOT_GUESS_EARLIEST,
+  BOT_GUESS_LATEST,
+  BOT_WRONG_GUESS_MIN_SECONDS,
+  BOT_WRONG_GUESS_MAX_SECONDS,
+  createBot,
+  isBot,
+  pickCorrectGuessTime,
+  nextWrongGuessDelay,
+  generateWrongGuess,
+  hasBotDrawing,
+  pickBotWordOption,
+  getBotDrawing
+};
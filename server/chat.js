@@ -0,0 +1,113 @@
+// Chat and guess limits for DrawIt multiplayer - rate limiting and word filter
+
+export const MAX_MESSAGE_LENGTH = 100;
+
+// Messages (guesses + chat) allowed per player within the window
+export const RATE_LIMIT_WINDOW_MS = 5000;
+export const RATE_LIMIT_MAX_MESSAGES = 6;
+
+// Too many wrong guesses in a short window puts guessing on cooldown
+export const GUESS_WINDOW_MS = 10000;
+export const GUESS_MAX_WRONG = 5;
+export const GUESS_COOLDOWN_MS = 5000;
+
+// Words masked in chat. Extend with DRAWIT_BANNED_WORDS (comma-separated).
+const DEFAULT_BANNED_WORDS = ['fuck', 'shit', 'bitch', 'cunt', 'asshole', 'bastard', 'dick', 'slut', 'whore', 'fag'];
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Build a matcher for the banned words plus common endings (fucking, shits, ...)
+export const buildWordFilter = (words) => {
+  const cleaned = [...new Set(words.map(w => w.trim().toLowerCase()).filter(Boolean))];
+  if (cleaned.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${cleaned.map(escapeRegExp).join('|')})(?:s|es|ed|er|ers|ing|y)?(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+const wordFilter = buildWordFilter([
+  ...DEFAULT_BANNED_WORDS,
+  ...(process.env.DRAWIT_BANNED_WORDS ? process.env.DRAWIT_BANNED_WORDS.split(',') : [])
+]);
+
+// Replace banned words with asterisks, keeping the first letter
+export const filterProfanity = (text, filter = wordFilter) => {
+  if (!filter) return text;
+  return text.replace(filter, (match) => match[0] + '*'.repeat(match.length - 1));
+};
+
+// Per-player history (by player or spectator id, so reconnecting doesn't reset it):
+// { sent: [timestamps], wrongGuesses: [timestamps], cooldownUntil }
+const userLimits = new Map();
+
+const getLimits = (userId) => {
+  let limits = userLimits.get(userId);
+  if (!limits) {
+    limits = { sent: [], wrongGuesses: [], cooldownUntil: 0 };
+    userLimits.set(userId, limits);
+  }
+  return limits;
+};
+
+// Validate a message and count it against the player's rate limit.
+// Returns the trimmed text, or an error with how long to wait.
+export const checkMessage = (userId, text, now = Date.now()) => {
+  if (typeof text !== 'string' || !text.trim()) {
+    return { allowed: false, error: 'Message is empty' };
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.length > MAX_MESSAGE_LENGTH) {
+    return { allowed: false, error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` };
+  }
+
+  const limits = getLimits(userId);
+  limits.sent = limits.sent.filter(t => now - t < RATE_LIMIT_WINDOW_MS);
+
+  if (limits.sent.length >= RATE_LIMIT_MAX_MESSAGES) {
+    const retryAfter = RATE_LIMIT_WINDOW_MS - (now - limits.sent[0]);
+    return { allowed: false, error: 'You are sending messages too fast', retryAfter };
+  }
+
+  limits.sent.push(now);
+  return { allowed: true, text: trimmed };
+};
+
+// Check whether the player is still cooling down from wrong guesses
+export const checkGuessCooldown = (userId, now = Date.now()) => {
+  const limits = getLimits(userId);
+  if (limits.cooldownUntil > now) {
+    return { allowed: false, error: 'Too many wrong guesses - take a breath', retryAfter: limits.cooldownUntil - now };
+  }
+  return { allowed: true };
+};
+
+// Record a wrong guess; starts a cooldown once the limit is hit
+export const recordWrongGuess = (userId, now = Date.now()) => {
+  const limits = getLimits(userId);
+  limits.wrongGuesses = limits.wrongGuesses.filter(t => now - t < GUESS_WINDOW_MS);
+  limits.wrongGuesses.push(now);
+
+  if (limits.wrongGuesses.length >= GUESS_MAX_WRONG) {
+    limits.cooldownUntil = now + GUESS_COOLDOWN_MS;
+    limits.wrongGuesses = [];
+  }
+};
+
+// Drop a player's history once they have left for good (see scheduleForgetLimits in index.js)
+export const forgetUser = (userId) => {
+  userLimits.delete(userId);
+};
+
+export default {
+  MAX_MESSAGE_LENGTH,
+  RATE_LIMIT_WINDOW_MS,
+  RATE_LIMIT_MAX_MESSAGES,
+  GUESS_WINDOW_MS,
+  GUESS_MAX_WRONG,
+  GUESS_COOLDOWN_MS,
+  buildWordFilter,
+  filterProfanity,
+  checkMessage,
+  checkGuessCooldown,
+  recordWrongGuess,
+  forgetUser
+};
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_MESSAGE_LENGTH,
+  RATE_LIMIT_WINDOW_MS,
+  RATE_LIMIT_MAX_MESSAGES,
+  GUESS_MAX_WRONG,
+  GUESS_COOLDOWN_MS,
+  buildWordFilter,
+  filterProfanity,
+  checkMessage,
+  checkGuessCooldown,
+  recordWrongGuess,
+  forgetUser
+} from './chat.js';
+
+// Limits are kept per user for the whole process, so every test uses its own id
+let nextUser = 0;
+const newUser = () => `user-${nextUser++}`;
+
+describe('checkMessage', () => {
+  it('trims the text it lets through', () => {
+    assert.deepEqual(checkMessage(newUser(), '  hello  ', 0), { allowed: true, text: 'hello' });
+  });
+
+  it('rejects empty, blank and non-text messages', () => {
+    const user = newUser();
+    assert.equal(checkMessage(user, '', 0).allowed, false);
+    assert.equal(checkMessage(user, '   ', 0).allowed, false);
+    assert.equal(checkMessage(user, { text: 'hi' }, 0).allowed, false);
+  });
+
+  it('rejects messages over the length limit', () => {
+    const user = newUser();
+    assert.equal(checkMessage(user, 'a'.repeat(MAX_MESSAGE_LENGTH), 0).allowed, true);
+    assert.equal(checkMessage(user, 'a'.repeat(MAX_MESSAGE_LENGTH + 1), 0).allowed, false);
+  });
+
+  it('limits how many messages are sent within the window', () => {
+    const user = newUser();
+    for (let i = 0; i < RATE_LIMIT_MAX_MESSAGES; i++) {
+      assert.equal(checkMessage(user, `message ${i}`, 1000 + i).allowed, true);
+    }
+
+    const blocked = checkMessage(user, 'one more', 2000);
+    assert.equal(blocked.allowed, false);
+    assert.equal(blocked.retryAfter, RATE_LIMIT_WINDOW_MS - 1000);
+
+    assert.equal(checkMessage(user, 'later', 1000 + RATE_LIMIT_WINDOW_MS).allowed, true);
+  });
+
+  it('does not count rejected messages', () => {
+    const user = newUser();
+    for (let i = 0; i < RATE_LIMIT_MAX_MESSAGES; i++) checkMessage(user, '', 0);
+
+    assert.equal(checkMessage(user, 'hi', 0).allowed, true);
+  });
+
+  it('starts over once a user is forgotten', () => {
+    const user = newUser();
+    for (let i = 0; i < RATE_LIMIT_MAX_MESSAGES; i++) checkMessage(user, 'hi', 0);
+    forgetUser(user);
+
+    assert.equal(checkMessage(user, 'hi', 0).allowed, true);
+  });
+});
+
+describe('guess cooldown', () => {
+  it('starts after too many wrong guesses and runs out', () => {
+    const user = newUser();
+    for (let i = 0; i < GUESS_MAX_WRONG - 1; i++) recordWrongGuess(user, 1000);
+    assert.equal(checkGuessCooldown(user, 1000).allowed, true);
+
+    recordWrongGuess(user, 1000);
+    const cooldown = checkGuessCooldown(user, 2000);
+    assert.equal(cooldown.allowed, false);
+    assert.equal(cooldown.retryAfter, GUESS_COOLDOWN_MS - 1000);
+
+    assert.equal(checkGuessCooldown(user, 1000 + GUESS_COOLDOWN_MS).allowed, true);
+  });
+
+  it('only counts wrong guesses within the window', () => {
+    const user = newUser();
+    for (let i = 0; i < GUESS_MAX_WRONG; i++) recordWrongGuess(user, i * 60000);
+
+    assert.equal(checkGuessCooldown(user, GUESS_MAX_WRONG * 60000).allowed, true);
+  });
+});
+
+describe('filterProfanity', () => {
+  const filter = buildWordFilter(['darn', 'heck']);
+
+  it('masks banned words and their common endings, keeping the first letter', () => {
+    assert.equal(filterProfanity('Darn it, darned heckin heck', filter), 'D*** it, d***** heckin h***');
+  });
+
+  it('leaves banned words inside other words alone', () => {
+    assert.equal(filterProfanity('checkmate', filter), 'checkmate');
+  });
+
+  it('does nothing without banned words', () => {
+    assert.equal(buildWordFilter([' ', '']), null);
+    assert.equal(filterProfanity('darn', null), 'darn');
+  });
+});
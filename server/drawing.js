@@ -0,0 +1,186 @@
+// Vector stroke handling for DrawIt (server-side copy)
+
+// Limits to keep a single drawer from bloating room state
+export const MAX_POINTS_PER_EVENT = 500;
+export const MAX_POINTS_PER_DRAWING = 20000;
+export const MIN_STROKE_WIDTH = 1;
+export const MAX_STROKE_WIDTH = 100;
+// Shapes and fills are cheap to send but fills are costly to replay
+export const MAX_OPS_PER_DRAWING = 2000;
+// Every applied event is kept for the gallery replay, including shape drags, undos and redos
+export const MAX_EVENTS_PER_TURN = 10000;
+// Logical drawing space (mirrors services/drawing.ts) - points outside it are pulled onto the edge
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+
+const TOOLS = ['pen', 'eraser'];
+const SHAPES = ['line', 'rect', 'ellipse'];
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const ID_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/;
+
+const isValidPoint = (p) =>
+  p && Number.isFinite(p.x) && Number.isFinite(p.y);
+
+const isValidPoints = (points) =>
+  Array.isArray(points) &&
+  points.length > 0 &&
+  points.length <= MAX_POINTS_PER_EVENT &&
+  points.every(isValidPoint);
+
+const isValidWidth = (width) =>
+  Number.isFinite(width) && width >= MIN_STROKE_WIDTH && width <= MAX_STROKE_WIDTH;
+
+// Count points across all strokes in a drawing
+const countPoints = (ops) =>
+  ops.reduce((total, op) => total + (op.kind === 'stroke' ? op.points.length : 0), 0);
+
+const clamp = (value, max) => Math.min(max, Math.max(0, value));
+
+const copyPoint = (p) => ({ x: clamp(p.x, CANVAS_WIDTH), y: clamp(p.y, CANVAS_HEIGHT) });
+
+// Validate a draw event coming from a client
+export const isValidDrawEvent = (event) => {
+  if (!event || typeof event !== 'object') return false;
+
+  switch (event.type) {
+    case 'stroke-start': {
+      const stroke = event.stroke;
+      return Boolean(stroke) &&
+        ID_PATTERN.test(stroke.id) &&
+        TOOLS.includes(stroke.tool) &&
+        COLOR_PATTERN.test(stroke.color) &&
+        isValidWidth(stroke.width) &&
+        isValidPoints(stroke.points);
+    }
+    case 'stroke-points':
+      return ID_PATTERN.test(event.id) && isValidPoints(event.points);
+    case 'shape-start': {
+      const shape = event.shape;
+      return Boolean(shape) &&
+        ID_PATTERN.test(shape.id) &&
+        SHAPES.includes(shape.shape) &&
+        COLOR_PATTERN.test(shape.color) &&
+        isValidWidth(shape.width) &&
+        isValidPoint(shape.from) &&
+        isValidPoint(shape.to);
+    }
+    case 'shape-update':
+      return ID_PATTERN.test(event.id) && isValidPoint(event.to);
+    case 'fill': {
+      const fill = event.fill;
+      return Boolean(fill) &&
+        ID_PATTERN.test(fill.id) &&
+        COLOR_PATTERN.test(fill.color) &&
+        isValidPoint(fill.point);
+    }
+    case 'stroke-end':
+    case 'shape-end':
+    case 'clear':
+      return ID_PATTERN.test(event.id);
+    case 'undo':
+      return true;
+    case 'redo':
+      return Boolean(event.op) && ID_PATTERN.test(event.op.id);
+    default:
+      return false;
+  }
+};
+
+// Apply a validated draw event to a drawing (mutates ops and undone).
+// Undone holds ops taken off by undo so redo can put them back; anything new clears it.
+// Returns the sanitized event to relay, or null if it was rejected.
+export const applyDrawEvent = (ops, event, undone = []) => {
+  if (!isValidDrawEvent(event)) return null;
+
+  if (['stroke-start', 'shape-start', 'fill', 'clear'].includes(event.type)) {
+    undone.length = 0;
+  }
+
+  switch (event.type) {
+    case 'stroke-start': {
+      if (ops.length >= MAX_OPS_PER_DRAWING) return null;
+      if (countPoints(ops) + event.stroke.points.length > MAX_POINTS_PER_DRAWING) return null;
+
+      const { id, tool, color, width, points } = event.stroke;
+      const stroke = {
+        kind: 'stroke',
+        id,
+        tool,
+        color,
+        width,
+        points: points.map(copyPoint)
+      };
+      ops.push(stroke);
+      return { type: 'stroke-start', stroke };
+    }
+    case 'stroke-points': {
+      const stroke = ops.find(op => op.kind === 'stroke' && op.id === event.id);
+      if (!stroke) return null;
+      if (countPoints(ops) + event.points.length > MAX_POINTS_PER_DRAWING) return null;
+
+      const points = event.points.map(copyPoint);
+      stroke.points.push(...points);
+      return { type: 'stroke-points', id: event.id, points };
+    }
+    case 'stroke-end':
+      return { type: 'stroke-end', id: event.id };
+    case 'shape-start': {
+      if (ops.length >= MAX_OPS_PER_DRAWING) return null;
+
+      const { id, shape: kind, color, width, from, to } = event.shape;
+      const shape = { kind: 'shape', id, shape: kind, color, width, from: copyPoint(from), to: copyPoint(to) };
+      ops.push(shape);
+      return { type: 'shape-start', shape };
+    }
+    case 'shape-update': {
+      const shape = ops.find(op => op.kind === 'shape' && op.id === event.id);
+      if (!shape) return null;
+
+      shape.to = copyPoint(event.to);
+      return { type: 'shape-update', id: event.id, to: shape.to };
+    }
+    case 'shape-end':
+      return { type: 'shape-end', id: event.id };
+    case 'fill': {
+      if (ops.length >= MAX_OPS_PER_DRAWING) return null;
+
+      const { id, color, point } = event.fill;
+      const fill = { kind: 'fill', id, color, point: copyPoint(point) };
+      ops.push(fill);
+      return { type: 'fill', fill };
+    }
+    case 'clear':
+      if (ops.length >= MAX_OPS_PER_DRAWING) return null;
+
+      ops.push({ kind: 'clear', id: event.id });
+      return { type: 'clear', id: event.id };
+    case 'undo':
+      if (ops.length === 0) return null;
+      undone.push(ops.pop());
+      return { type: 'undo' };
+    case 'redo': {
+      // Only the most recently undone op can come back - relay our own copy of it
+      const op = undone[undone.length - 1];
+      if (!op || op.id !== event.op.id || ops.length >= MAX_OPS_PER_DRAWING) return null;
+
+      undone.pop();
+      ops.push(op);
+      return { type: 'redo', op };
+    }
+    default:
+      return null;
+  }
+};
+
+export default {
+  MAX_POINTS_PER_EVENT,
+  MAX_POINTS_PER_DRAWING,
+  MIN_STROKE_WIDTH,
+  MAX_STROKE_WIDTH,
+  MAX_OPS_PER_DRAWING,
+  MAX_EVENTS_PER_TURN,
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  isValidDrawEvent,
+  applyDrawEvent
+};
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_POINTS_PER_EVENT,
+  MAX_POINTS_PER_DRAWING,
+  MAX_OPS_PER_DRAWING,
+  isValidDrawEvent,
+  applyDrawEvent
+} from './drawing.js';
+
+const strokeStart = (id, points = [{ x: 10, y: 10 }], overrides = {}) => ({
+  type: 'stroke-start',
+  stroke: { id, tool: 'pen', color: '#112233', width: 4, points, ...overrides }
+});
+
+const fill = (id, point = { x: 5, y: 5 }) => ({ type: 'fill', fill: { id, color: '#ff0000', point } });
+
+describe('isValidDrawEvent', () => {
+  it('accepts well-formed events', () => {
+    assert.equal(isValidDrawEvent(strokeStart('a')), true);
+    assert.equal(isValidDrawEvent({ type: 'stroke-points', id: 'a', points: [{ x: 1, y: 2 }] }), true);
+    assert.equal(isValidDrawEvent(fill('f')), true);
+    assert.equal(isValidDrawEvent({ type: 'clear', id: 'c' }), true);
+    assert.equal(isValidDrawEvent({ type: 'undo' }), true);
+  });
+
+  it('rejects unknown tools, bad colours and widths out of range', () => {
+    assert.equal(isValidDrawEvent(strokeStart('a', undefined, { tool: 'spray' })), false);
+    assert.equal(isValidDrawEvent(strokeStart('a', undefined, { color: 'red' })), false);
+    assert.equal(isValidDrawEvent(strokeStart('a', undefined, { width: 0 })), false);
+    assert.equal(isValidDrawEvent(strokeStart('a', undefined, { width: 101 })), false);
+  });
+
+  it('rejects ids that are not short and plain', () => {
+    assert.equal(isValidDrawEvent(strokeStart('<script>')), false);
+    assert.equal(isValidDrawEvent(strokeStart('a'.repeat(33))), false);
+  });
+
+  it('rejects points that are not finite numbers', () => {
+    assert.equal(isValidDrawEvent(strokeStart('a', [{ x: NaN, y: 1 }])), false);
+    assert.equal(isValidDrawEvent(strokeStart('a', [{ x: '1', y: 1 }])), false);
+    assert.equal(isValidDrawEvent(fill('f', { x: Infinity, y: 0 })), false);
+  });
+
+  it('rejects empty or oversized point batches', () => {
+    assert.equal(isValidDrawEvent(strokeStart('a', [])), false);
+    const tooMany = Array.from({ length: MAX_POINTS_PER_EVENT + 1 }, (_, i) => ({ x: i % 800, y: 0 }));
+    assert.equal(isValidDrawEvent(strokeStart('a', tooMany)), false);
+  });
+
+  it('rejects unknown event types', () => {
+    assert.equal(isValidDrawEvent({ type: 'erase-all' }), false);
+    assert.equal(isValidDrawEvent(null), false);
+  });
+});
+
+describe('applyDrawEvent', () => {
+  it('relays only the fields it knows about', () => {
+    const ops = [];
+    const relayed = applyDrawEvent(ops, strokeStart('a', [{ x: 1, y: 2, pressure: 9 }], { extra: 'x' }));
+
+    assert.deepEqual(relayed.stroke, {
+      kind: 'stroke', id: 'a', tool: 'pen', color: '#112233', width: 4, points: [{ x: 1, y: 2 }]
+    });
+    assert.deepEqual(ops, [relayed.stroke]);
+  });
+
+  it('pulls points outside the 800x600 space onto its edge', () => {
+    const ops = [];
+    applyDrawEvent(ops, strokeStart('a', [{ x: -20, y: 900 }]));
+    applyDrawEvent(ops, { type: 'stroke-points', id: 'a', points: [{ x: 1200, y: -1 }] });
+    applyDrawEvent(ops, fill('f', { x: 801, y: 300 }));
+
+    assert.deepEqual(ops[0].points, [{ x: 0, y: 600 }, { x: 800, y: 0 }]);
+    assert.deepEqual(ops[1].point, { x: 800, y: 300 });
+  });
+
+  it('ignores points for a stroke that does not exist', () => {
+    assert.equal(applyDrawEvent([], { type: 'stroke-points', id: 'nope', points: [{ x: 1, y: 1 }] }), null);
+  });
+
+  it('caps the points in a drawing', () => {
+    const ops = [];
+    const batch = Array.from({ length: MAX_POINTS_PER_EVENT }, () => ({ x: 1, y: 1 }));
+    for (let i = 0; i < MAX_POINTS_PER_DRAWING / MAX_POINTS_PER_EVENT; i++) {
+      assert.notEqual(applyDrawEvent(ops, strokeStart(`s${i}`, batch)), null);
+    }
+
+    assert.equal(applyDrawEvent(ops, strokeStart('over')), null);
+  });
+
+  it('caps the ops in a drawing, clears included', () => {
+    const ops = [];
+    for (let i = 0; i < MAX_OPS_PER_DRAWING; i++) applyDrawEvent(ops, { type: 'clear', id: `c${i}` });
+
+    assert.equal(applyDrawEvent(ops, { type: 'clear', id: 'over' }), null);
+    assert.equal(applyDrawEvent(ops, fill('over')), null);
+    assert.equal(ops.length, MAX_OPS_PER_DRAWING);
+  });
+
+  it('undoes the last op and redoes only that op', () => {
+    const ops = [];
+    const undone = [];
+    applyDrawEvent(ops, strokeStart('a'), undone);
+    applyDrawEvent(ops, fill('f'), undone);
+
+    assert.deepEqual(applyDrawEvent(ops, { type: 'undo' }, undone), { type: 'undo' });
+    assert.deepEqual(ops.map(op => op.id), ['a']);
+
+    assert.equal(applyDrawEvent(ops, { type: 'redo', op: { id: 'a' } }, undone), null);
+    const redone = applyDrawEvent(ops, { type: 'redo', op: { id: 'f', color: '#000000' } }, undone);
+    assert.equal(redone.op.color, '#ff0000');
+    assert.deepEqual(ops.map(op => op.id), ['a', 'f']);
+  });
+
+  it('forgets undone ops once something new is drawn', () => {
+    const ops = [];
+    const undone = [];
+    applyDrawEvent(ops, strokeStart('a'), undone);
+    applyDrawEvent(ops, { type: 'undo' }, undone);
+    applyDrawEvent(ops, strokeStart('b'), undone);
+
+    assert.equal(applyDrawEvent(ops, { type: 'redo', op: { id: 'a' } }, undone), null);
+  });
+
+  it('has nothing to undo on an empty drawing', () => {
+    assert.equal(applyDrawEvent([], { type: 'undo' }), null);
+  });
+});
@@ -1,12 +1,17 @@
 // Game state management for DrawIt multiplayer
 
 import { generateWordOptions } from './words.js';
+import { applyDrawEvent, MAX_EVENTS_PER_TURN } from './drawing.js';
+import { matchGuess } from './matching.js';
+import { DEFAULT_SETTINGS } from './settings.js';
+import { getScoringStrategy } from './scoring.js';
 
 // Game phases (matching frontend)
 export const GamePhase = {
   MENU: 'MENU',
   HOST_SETUP: 'HOST_SETUP',
   LOBBY_BROWSER: 'LOBBY_BROWSER',
+  PROFILE: 'PROFILE',
   LOBBY_WAITING: 'LOBBY_WAITING',
   ROOM_LOBBY: 'ROOM_LOBBY',
   ROUND_START: 'ROUND_START',
@@ -15,31 +20,62 @@ export const GamePhase = {
   DRAWING: 'DRAWING',
   TURN_END: 'TURN_END',
   ROUND_END: 'ROUND_END',
-  GAME_OVER: 'GAME_OVER'
+  GAME_OVER: 'GAME_OVER',
+  // Telephone mode (see telephone.js) - everyone works at once instead of one drawer per turn
+  TELEPHONE_PROMPT: 'TELEPHONE_PROMPT',
+  TELEPHONE_DRAW: 'TELEPHONE_DRAW',
+  TELEPHONE_DESCRIBE: 'TELEPHONE_DESCRIBE',
+  TELEPHONE_REVEAL: 'TELEPHONE_REVEAL'
 };
 
-// Game constants
-export const TOTAL_ROUNDS = 3;
-export const TURN_DURATION_SECONDS = 80;
-export const POINTS_DRAWER_ALL_GUESSED = 300;
-export const POINTS_GUESS_BASE = 500;
-export const POINTS_GUESS_DECAY = 100;
+// Chat channels (matching frontend). Messages without a channel are for everyone.
+export const ChatChannel = {
+  ALL: 'ALL',
+  SPECTATOR: 'SPECTATOR',
+  GUESSED: 'GUESSED' // drawer and correct guessers, hidden from everyone still guessing
+};
+
+// How long the drawer has to pick a word before one is picked for them
+export const WORD_SELECTION_SECONDS = 15;
+
+// Fresh sets of word options the drawer may ask for each turn
+export const WORD_REROLLS_PER_TURN = 1;
 
 // In-memory game state store (keyed by room code)
 const gameStates = new Map();
 
 // Initialize game state for a room
-export const initializeGameState = (roomCode) => {
+export const initializeGameState = (roomCode, settings = DEFAULT_SETTINGS) => {
   const state = {
     phase: GamePhase.ROOM_LOBBY,
+    settings: { ...settings },
+    customWords: null,
     currentRound: 1,
-    totalRounds: TOTAL_ROUNDS,
-    currentPlayerIndex: 0,
+    totalRounds: settings.rounds,
+    turnOrder: [], // player ids in drawing order, fixed for the game (late joiners go last)
+    turnIndex: -1, // position of this turn's drawer in turnOrder
+    drawnThisRound: [], // ids of everyone who has had their turn this round
+    drawerId: null,
     currentWord: null,
+    revealedIndices: [],
     wordOptions: [],
+    rerollsLeft: 0, // fresh word options the drawer can still ask for this turn
     timeLeft: 0,
+    turnEndsAt: null, // when word selection / the drawing phase runs out (ms timestamp)
+    phaseEndsAt: null, // when a pause between phases (turn end, round end, everyone guessed...) is over
+    pausedAt: null, // set while the host has the game paused (ms timestamp)
+    heldForRejoin: false, // paused by a restart rather than the host - lifted by the first player back
     messages: [],
-    canvasData: null,
+    drawing: [],
+    undoneOps: [], // ops taken off by undo, newest last
+    timeline: [], // { t, event } for every applied draw event this turn (t = ms since the word was picked)
+    drawingStartedAt: null,
+    gallery: [], // finished turns of this game, see archiveTurn
+    turnGuesses: [], // correct guesses this turn: { playerId, playerName, timeMs, points, breakdown }
+    turnDrawerScore: { points: 0, breakdown: [] }, // what the drawer earned this turn
+    turnResults: [], // finished turns of this game for match history, see recordTurnResult
+    gameStartedAt: null,
+    gameId: null, // match history id once the game is over
     usedWords: [],
     timerInterval: null
   };
@@ -48,6 +84,27 @@ export const initializeGameState = (roomCode) => {
   return state;
 };
 
+// Copy every game state for saving (see storage.js). Timers can't be saved - they are
+// restarted from turnEndsAt / phaseEndsAt.
+export const exportGameStates = () => {
+  return [...gameStates.entries()].map(([roomCode, { timerInterval, ...state }]) => ({
+    roomCode,
+    ...structuredClone(state)
+  }));
+};
+
+// Replace all game states with saved ones
+export const restoreGameStates = (savedStates) => {
+  gameStates.forEach(state => {
+    if (state.timerInterval) clearInterval(state.timerInterval);
+  });
+  gameStates.clear();
+  
+  savedStates.forEach(({ roomCode, ...state }) => {
+    gameStates.set(roomCode, { turnDrawerScore: { points: 0, breakdown: [] }, rerollsLeft: 0, turnOrder: [], turnIndex: -1, drawnThisRound: [], drawerId: null, ...state, timerInterval: null });
+  });
+};
+
 // Get game state for a room
 export const getGameState = (roomCode) => {
   return gameStates.get(roomCode) || null;
@@ -71,17 +128,30 @@ export const deleteGameState = (roomCode) => {
   return gameStates.delete(roomCode);
 };
 
-// Start a new game
-export const startGame = (roomCode, players) => {
+// Start a new game (settings are locked in for the whole game)
+export const startGame = (roomCode, players, settings = DEFAULT_SETTINGS, customWords = null) => {
   const state = gameStates.get(roomCode);
   if (!state) return null;
   
+  state.settings = { ...settings };
+  state.customWords = customWords;
+  state.totalRounds = settings.rounds;
   state.phase = GamePhase.ROUND_START;
   state.currentRound = 1;
-  state.currentPlayerIndex = 0;
+  state.turnOrder = players.map(p => p.id);
+  state.turnIndex = -1;
+  state.drawnThisRound = [];
+  state.drawerId = null;
   state.messages = [];
-  state.canvasData = null;
+  state.drawing = [];
+  state.undoneOps = [];
+  state.timeline = [];
+  state.gallery = [];
+  state.turnResults = [];
+  state.gameStartedAt = Date.now();
+  state.gameId = null;
   state.usedWords = [];
+  state.pausedAt = null;
   
   // Reset player scores
   players.forEach(p => {
@@ -98,28 +168,107 @@ export const startRound = (roomCode, roundNum) => {
   if (!state) return null;
   
   state.currentRound = roundNum;
+  state.turnIndex = -1;
+  state.drawnThisRound = [];
+  state.drawerId = null;
   state.phase = GamePhase.ROUND_START;
   state.messages = [];
   
   return state;
 };
 
+// Add a player who joined mid-game to the end of the turn order
+export const addToTurnOrder = (roomCode, playerId) => {
+  const state = gameStates.get(roomCode);
+  if (!state || state.turnOrder.includes(playerId)) return null;
+  
+  state.turnOrder.push(playerId);
+  return state;
+};
+
+// Take a player who left out of the turn order. Everyone after them moves up a place,
+// so the next turn still goes to whoever was due.
+export const removeFromTurnOrder = (roomCode, playerId) => {
+  const state = gameStates.get(roomCode);
+  if (!state) return null;
+  
+  const index = state.turnOrder.indexOf(playerId);
+  if (index === -1) return state;
+  
+  state.turnOrder.splice(index, 1);
+  if (index <= state.turnIndex) {
+    state.turnIndex -= 1;
+  }
+  return state;
+};
+
+// Position in the turn order of the next player to draw this round, or -1 when the round
+// is over. Players who are disconnected (but still within the grace period) are passed over
+// for now; the search wraps around, so they still get their turn if they're back before the
+// round ends.
+export const getNextTurnIndex = (roomCode, players) => {
+  const state = gameStates.get(roomCode);
+  if (!state) return -1;
+  
+  const count = state.turnOrder.length;
+  for (let step = 1; step <= count; step++) {
+    const i = (state.turnIndex + step) % count;
+    const id = state.turnOrder[i];
+    const player = players.find(p => p.id === id);
+    if (player && player.isConnected !== false && !state.drawnThisRound.includes(id)) return i;
+  }
+  return -1;
+};
+
+// This turn's drawer (null between turns, or if they've left)
+export const getDrawer = (roomCode, players) => {
+  const state = gameStates.get(roomCode);
+  if (!state || !state.drawerId) return null;
+  return players.find(p => p.id === state.drawerId) || null;
+};
+
 // Start a turn
-export const startTurn = async (roomCode, playerIndex) => {
+export const startTurn = async (roomCode, turnIndex) => {
   const state = gameStates.get(roomCode);
   if (!state) return null;
   
   state.phase = GamePhase.TURN_START;
-  state.currentPlayerIndex = playerIndex;
+  state.turnIndex = turnIndex;
+  state.drawerId = state.turnOrder[turnIndex] || null;
+  if (state.drawerId) state.drawnThisRound.push(state.drawerId);
   state.currentWord = null;
-  state.canvasData = null;
+  state.revealedIndices = [];
+  state.drawing = [];
+  state.undoneOps = [];
+  state.timeline = [];
+  state.drawingStartedAt = null;
+  state.turnEndsAt = null;
+  state.rerollsLeft = WORD_REROLLS_PER_TURN;
+  state.turnGuesses = [];
+  state.turnDrawerScore = { points: 0, breakdown: [] };
   state.messages = [];
   
   // Generate word options
-  const words = await generateWordOptions(state.currentRound, state.usedWords);
+  const words = await generateWordOptions(state.currentRound, state.usedWords, state.settings.wordChoices, state.customWords);
   state.wordOptions = words;
   state.usedWords = [...state.usedWords, ...words.map(w => w.word)];
   state.phase = GamePhase.WORD_SELECTION;
+  state.timeLeft = WORD_SELECTION_SECONDS;
+  state.turnEndsAt = Date.now() + WORD_SELECTION_SECONDS * 1000;
+  
+  return state;
+};
+
+// Swap the drawer's word options for a fresh set (the countdown keeps running)
+export const rerollWordOptions = async (roomCode) => {
+  const state = gameStates.get(roomCode);
+  if (!state || state.phase !== GamePhase.WORD_SELECTION) return null;
+  if (state.rerollsLeft <= 0) return null;
+  
+  state.rerollsLeft -= 1;
+  const words = await generateWordOptions(state.currentRound, state.usedWords, state.settings.wordChoices, state.customWords);
+  state.wordOptions = words;
+  state.usedWords = [...state.usedWords, ...words.map(w => w.word)];
   
   return state;
 };
@@ -130,20 +279,141 @@ export const selectWord = (roomCode, word) => {
   if (!state) return null;
   
   state.currentWord = word;
+  state.revealedIndices = [];
   state.phase = GamePhase.DRAWING;
-  state.timeLeft = TURN_DURATION_SECONDS;
+  state.timeLeft = state.settings.drawTime;
+  state.drawingStartedAt = Date.now();
+  state.turnEndsAt = state.drawingStartedAt + state.settings.drawTime * 1000;
   state.wordOptions = [];
+  state.rerollsLeft = 0;
   
   return state;
 };
 
-// Update canvas data
-export const updateCanvas = (roomCode, canvasData) => {
+// Mask a word, keeping spaces/punctuation and any revealed letters
+export const maskWord = (word, revealedIndices = []) => {
+  return word.split('').map((char, i) => {
+    if (!/[\p{L}\p{N}]/u.test(char)) return char;
+    if (revealedIndices.includes(i)) return char;
+    return '_';
+  }).join('');
+};
+
+// Reveal hint letters as the turn progresses. Returns true if a new letter was revealed.
+export const revealHints = (roomCode) => {
   const state = gameStates.get(roomCode);
-  if (!state) return null;
+  if (!state || !state.currentWord) return false;
   
-  state.canvasData = canvasData;
-  return state;
+  const word = state.currentWord.word;
+  // Hints are spread evenly across the turn
+  const { drawTime, hintCount } = state.settings;
+  const elapsed = drawTime - state.timeLeft;
+  const hintsDue = Array.from({ length: hintCount }, (_, i) => Math.round(drawTime * (i + 1) / (hintCount + 1)))
+    .filter(s => elapsed >= s).length;
+  let revealed = false;
+  
+  while (state.revealedIndices.length < hintsDue) {
+    // First hint is the first letter, later hints pick from the remaining letters
+    const hidden = word.split('')
+      .map((char, i) => i)
+      .filter(i => /[\p{L}\p{N}]/u.test(word[i]) && !state.revealedIndices.includes(i));
+    
+    // Always leave at least two letters hidden
+    if (hidden.length <= 2) break;
+    
+    const index = state.revealedIndices.length === 0
+      ? hidden[0]
+      : hidden[Math.floor(Math.random() * hidden.length)];
+    state.revealedIndices.push(index);
+    revealed = true;
+  }
+  
+  return revealed;
+};
+
+// Get the word as a specific player is allowed to see it.
+// Only the drawer and players who already guessed get the real word until the turn ends.
+export const getWordView = (roomCode, playerId, players) => {
+  const state = gameStates.get(roomCode);
+  if (!state || !state.currentWord) {
+    return { currentWord: null, maskedWord: null };
+  }
+  
+  const maskedWord = maskWord(state.currentWord.word, state.revealedIndices);
+  const drawer = getDrawer(roomCode, players);
+  const player = players.find(p => p.id === playerId);
+  const turnOver = [GamePhase.TURN_END, GamePhase.ROUND_END, GamePhase.GAME_OVER].includes(state.phase);
+  
+  if (turnOver || (drawer && drawer.id === playerId) || (player && player.hasGuessedCorrectly)) {
+    return { currentWord: state.currentWord, maskedWord };
+  }
+  
+  return { currentWord: null, maskedWord };
+};
+
+// Apply a stroke event to the current drawing. Returns the event to relay, or null if rejected.
+export const applyDrawing = (roomCode, event) => {
+  const state = gameStates.get(roomCode);
+  if (!state || state.phase !== GamePhase.DRAWING) return null;
+  if (state.timeline.length >= MAX_EVENTS_PER_TURN) return null;
+  
+  const applied = applyDrawEvent(state.drawing, event, state.undoneOps);
+  if (applied) {
+    // Copy, since later events keep mutating the ops this one refers to
+    state.timeline.push({ t: Date.now() - (state.drawingStartedAt || Date.now()), event: structuredClone(applied) });
+  }
+  return applied;
+};
+
+// Keep the finished turn's drawing for the game-over gallery
+export const archiveTurn = (roomCode, players) => {
+  const state = gameStates.get(roomCode);
+  if (!state || !state.currentWord || state.drawing.length === 0) return null;
+  
+  const drawer = getDrawer(roomCode, players);
+  const entry = {
+    id: Math.random().toString(36).substr(2, 9),
+    round: state.currentRound,
+    word: state.currentWord.word,
+    drawerId: drawer ? drawer.id : null,
+    drawerName: drawer ? drawer.name : 'Unknown',
+    guessers: players
+      .filter(p => p.hasGuessedCorrectly && (!drawer || p.id !== drawer.id))
+      .map(p => ({ id: p.id, name: p.name })),
+    drawing: structuredClone(state.drawing),
+    timeline: state.timeline,
+    duration: state.drawingStartedAt ? Date.now() - state.drawingStartedAt : 0
+  };
+  
+  state.gallery.push(entry);
+  state.timeline = [];
+  return entry;
+};
+
+// Keep the finished turn's word, drawer and guesses for match history
+export const recordTurnResult = (roomCode, players) => {
+  const state = gameStates.get(roomCode);
+  if (!state || !state.currentWord) return null;
+  
+  const drawer = getDrawer(roomCode, players);
+  const endedAt = Date.now();
+  const result = {
+    round: state.currentRound,
+    word: state.currentWord.word,
+    drawerId: drawer ? drawer.id : null,
+    drawerName: drawer ? drawer.name : 'Unknown',
+    guessers: state.turnGuesses,
+    drawerPoints: state.turnDrawerScore.points,
+    drawerBreakdown: state.turnDrawerScore.breakdown,
+    startedAt: state.drawingStartedAt,
+    endedAt,
+    durationMs: state.drawingStartedAt ? endedAt - state.drawingStartedAt : 0
+  };
+  
+  state.turnResults.push(result);
+  state.turnGuesses = [];
+  state.turnDrawerScore = { points: 0, breakdown: [] };
+  return result;
 };
 
 // Add a message
@@ -160,15 +430,12 @@ export const addMessage = (roomCode, message) => {
   return state;
 };
 
-// Check if guess is correct
+// Check a guess against the current word. Near misses are flagged as close.
 export const checkGuess = (roomCode, guess) => {
   const state = gameStates.get(roomCode);
-  if (!state || !state.currentWord) return false;
+  if (!state || !state.currentWord) return { isCorrect: false, isClose: false };
   
-  const normalizedGuess = guess.trim().toLowerCase();
-  const normalizedTarget = state.currentWord.word.toLowerCase();
-  
-  return normalizedGuess === normalizedTarget;
+  return matchGuess(guess, state.currentWord.word);
 };
 
 // Handle correct guess
@@ -179,28 +446,87 @@ export const handleCorrectGuess = (roomCode, playerId, players) => {
   const player = players.find(p => p.id === playerId);
   if (!player || player.hasGuessedCorrectly) return null;
   
-  // Calculate points based on guess order
+  // The drawer may have left mid-turn - then nobody is left to award
+  const drawer = getDrawer(roomCode, players);
+  const drawerId = drawer ? drawer.id : null;
   const guessRank = players.filter(p => 
-    p.hasGuessedCorrectly && p.id !== players[state.currentPlayerIndex].id
+    p.hasGuessedCorrectly && p.id !== drawerId
   ).length;
-  const points = Math.max(POINTS_GUESS_BASE - (guessRank * POINTS_GUESS_DECAY), 200);
-  
-  player.score += points;
   player.hasGuessedCorrectly = true;
   
-  // Check if all guessers have guessed
-  const guessers = players.filter(p => p.id !== players[state.currentPlayerIndex].id);
+  // Check if all guessers have guessed (disconnected players don't hold the turn up)
+  const guessers = players.filter(p => 
+    p.id !== drawerId && p.isConnected !== false
+  );
   const allGuessed = guessers.every(p => p.hasGuessedCorrectly);
   
-  if (allGuessed) {
-    // Award drawer bonus
-    const drawer = players[state.currentPlayerIndex];
-    if (drawer) {
-      drawer.score += POINTS_DRAWER_ALL_GUESSED;
-    }
+  // Points come from the room's scoring strategy (see scoring.js)
+  const strategy = getScoringStrategy(state.settings.scoring);
+  const turn = {
+    guessRank,
+    guesserName: player.name,
+    timeLeft: state.timeLeft,
+    drawTime: state.settings.drawTime,
+    allGuessed
+  };
+  const guessScore = strategy.scoreGuess(turn);
+  const drawerScore = drawer ? strategy.scoreDrawer(turn) : { points: 0, breakdown: [] };
+  
+  player.score += guessScore.points;
+  if (drawer && drawerScore.points > 0) {
+    drawer.score += drawerScore.points;
+    state.turnDrawerScore = {
+      points: state.turnDrawerScore.points + drawerScore.points,
+      breakdown: [...state.turnDrawerScore.breakdown, ...drawerScore.breakdown]
+    };
   }
   
-  return { points, allGuessed, player };
+  const timeMs = state.drawingStartedAt ? Date.now() - state.drawingStartedAt : 0;
+  state.turnGuesses.push({ playerId, playerName: player.name, timeMs, points: guessScore.points, breakdown: guessScore.breakdown });
+  
+  return { points: guessScore.points, guessScore, drawerScore, allGuessed, player, timeMs };
+};
+
+// Freeze the game (host only). Stops the turn timer; the phase deadlines are moved on
+// by however long the pause lasted when it's lifted (see unpauseGame).
+export const pauseGame = (roomCode) => {
+  const state = gameStates.get(roomCode);
+  if (!state || state.pausedAt) return null;
+  
+  if (state.timerInterval) {
+    clearInterval(state.timerInterval);
+    state.timerInterval = null;
+  }
+  
+  state.pausedAt = Date.now();
+  return state;
+};
+
+// Lift a pause: every deadline moves on by the time spent paused. The caller restarts the timers.
+export const unpauseGame = (roomCode) => {
+  const state = gameStates.get(roomCode);
+  if (!state || !state.pausedAt) return null;
+  
+  const pausedFor = Date.now() - state.pausedAt;
+  if (state.turnEndsAt) state.turnEndsAt += pausedFor;
+  if (state.phaseEndsAt) state.phaseEndsAt += pausedFor;
+  if (state.drawingStartedAt) state.drawingStartedAt += pausedFor;
+  
+  state.pausedAt = null;
+  return state;
+};
+
+// Take back what the drawer earned this turn (the host skipped it)
+export const forfeitDrawerScore = (roomCode, players) => {
+  const state = gameStates.get(roomCode);
+  if (!state) return null;
+  
+  const drawer = getDrawer(roomCode, players);
+  if (drawer) {
+    drawer.score -= state.turnDrawerScore.points;
+  }
+  state.turnDrawerScore = { points: 0, breakdown: [] };
+  return state;
 };
 
 // End turn
@@ -249,23 +575,36 @@ export const decrementTimer = (roomCode) => {
 
 export default {
   GamePhase,
-  TOTAL_ROUNDS,
-  TURN_DURATION_SECONDS,
-  POINTS_DRAWER_ALL_GUESSED,
-  POINTS_GUESS_BASE,
-  POINTS_GUESS_DECAY,
+  ChatChannel,
+  WORD_SELECTION_SECONDS,
+  WORD_REROLLS_PER_TURN,
   initializeGameState,
   getGameState,
   updateGameState,
   deleteGameState,
+  exportGameStates,
+  restoreGameStates,
   startGame,
   startRound,
+  addToTurnOrder,
+  removeFromTurnOrder,
+  getNextTurnIndex,
+  getDrawer,
   startTurn,
+  rerollWordOptions,
   selectWord,
-  updateCanvas,
+  maskWord,
+  revealHints,
+  getWordView,
+  applyDrawing,
+  archiveTurn,
+  recordTurnResult,
   addMessage,
   checkGuess,
   handleCorrectGuess,
+  pauseGame,
+  unpauseGame,
+  forfeitDrawerScore,
   endTurn,
   endRound,
   resetPlayersForTurn,
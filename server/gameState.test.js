@@ -0,0 +1,85 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_EVENTS_PER_TURN } from './drawing.js';
+import {
+  GamePhase,
+  initializeGameState,
+  getGameState,
+  updateGameState,
+  applyDrawing,
+  handleCorrectGuess
+} from './gameState.js';
+
+const ROOM = 'TEST';
+
+const player = (id) => ({ id, name: id, score: 0, hasGuessedCorrectly: false, isConnected: true });
+
+const shapeStart = (id) => ({
+  type: 'shape-start',
+  shape: { id, shape: 'line', color: '#112233', width: 4, from: { x: 0, y: 0 }, to: { x: 1, y: 1 } }
+});
+
+describe('applyDrawing', () => {
+  beforeEach(() => {
+    initializeGameState(ROOM);
+    updateGameState(ROOM, { phase: GamePhase.DRAWING, drawingStartedAt: Date.now() });
+  });
+
+  it('records every applied event on the timeline', () => {
+    applyDrawing(ROOM, shapeStart('a'));
+    applyDrawing(ROOM, { type: 'shape-update', id: 'a', to: { x: 5, y: 5 } });
+    applyDrawing(ROOM, { type: 'shape-update', id: 'nope', to: { x: 5, y: 5 } });
+
+    assert.deepEqual(getGameState(ROOM).timeline.map(entry => entry.event.type), ['shape-start', 'shape-update']);
+  });
+
+  it('rejects events once the turn has used up its timeline, drags and undos included', () => {
+    applyDrawing(ROOM, shapeStart('a'));
+    for (let i = 1; i < MAX_EVENTS_PER_TURN; i++) {
+      assert.ok(applyDrawing(ROOM, { type: 'shape-update', id: 'a', to: { x: i % 800, y: 1 } }));
+    }
+
+    assert.equal(applyDrawing(ROOM, { type: 'shape-update', id: 'a', to: { x: 2, y: 2 } }), null);
+    assert.equal(applyDrawing(ROOM, { type: 'undo' }), null);
+    const state = getGameState(ROOM);
+    assert.equal(state.timeline.length, MAX_EVENTS_PER_TURN);
+    assert.equal(state.drawing.length, 1);
+  });
+
+  it('ignores drawing outside the drawing phase', () => {
+    updateGameState(ROOM, { phase: GamePhase.WORD_SELECTION });
+
+    assert.equal(applyDrawing(ROOM, shapeStart('a')), null);
+    assert.equal(getGameState(ROOM).timeline.length, 0);
+  });
+});
+
+describe('handleCorrectGuess', () => {
+  beforeEach(() => {
+    initializeGameState(ROOM);
+    updateGameState(ROOM, { phase: GamePhase.DRAWING, drawerId: 'drawer', timeLeft: 40 });
+  });
+
+  it('awards the guessers and the drawer', () => {
+    const players = [player('drawer'), player('a'), player('b')];
+    const first = handleCorrectGuess(ROOM, 'a', players);
+    const last = handleCorrectGuess(ROOM, 'b', players);
+
+    assert.ok(first.points > 0);
+    assert.equal(first.allGuessed, false);
+    assert.equal(last.allGuessed, true);
+    assert.ok(players[0].score > 0);
+    assert.equal(players[0].score, getGameState(ROOM).turnDrawerScore.points);
+  });
+
+  it('still scores the guess once the drawer has left, with nothing for the drawer', () => {
+    const players = [player('a'), player('b')];
+    const first = handleCorrectGuess(ROOM, 'a', players);
+    const second = handleCorrectGuess(ROOM, 'b', players);
+
+    assert.ok(first.points > second.points);
+    assert.deepEqual(first.drawerScore, { points: 0, breakdown: [] });
+    assert.equal(second.allGuessed, true);
+    assert.equal(getGameState(ROOM).turnDrawerScore.points, 0);
+  });
+});
@@ -0,0 +1,98 @@
+// Match history for DrawIt multiplayer - a record of every finished game
+
+import { getTeamCount, getTeamScores } from './teams.js';
+
+// Oldest records are dropped past this many
+export const MAX_GAME_RECORDS = 1000;
+
+// In-memory store (keyed by game id), saved along with rooms (see storage.js)
+const games = new Map();
+
+// Rank by final score; tied scores share a rank
+const rankByScore = (entries) => {
+  const sorted = [...entries].sort((a, b) => b.score - a.score);
+  return sorted.map(entry => ({
+    ...entry,
+    rank: sorted.findIndex(other => other.score === entry.score) + 1
+  }));
+};
+
+const rankPlayers = (players) => rankByScore(players.map(p => ({
+  id: p.id,
+  name: p.name,
+  type: p.type,
+  profileId: p.profileId || null,
+  teamId: p.teamId ?? null,
+  score: p.score
+})));
+
+// Save a finished game. Returns the record.
+export const saveGameRecord = (room, state) => {
+  const teamCount = getTeamCount(state.settings);
+  const record = {
+    id: `game-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+    roomCode: room.id,
+    roomName: room.name,
+    isPrivate: Boolean(room.isPrivate), // only members of the room may look it up
+    startedAt: state.gameStartedAt,
+    endedAt: Date.now(),
+    rounds: state.totalRounds,
+    settings: { ...state.settings },
+    players: rankPlayers(room.players),
+    teams: teamCount > 0 ? rankByScore(getTeamScores(room.players, teamCount)) : null,
+    turns: structuredClone(state.turnResults)
+  };
+
+  games.set(record.id, record);
+
+  // Maps keep insertion order, so the first key is the oldest record
+  while (games.size > MAX_GAME_RECORDS) {
+    games.delete(games.keys().next().value);
+  }
+
+  return record;
+};
+
+// Get a game record by id
+export const getGameRecord = (gameId) => {
+  return games.get(gameId) || null;
+};
+
+// A record as served over HTTP - names and scores only. Player ids would let anyone
+// impersonate a player, so they never leave the server.
+export const toPublicRecord = (record) => ({
+  ...record,
+  players: record.players.map(({ id, profileId, ...player }) => player),
+  turns: record.turns.map(({ drawerId, guessers, ...turn }) => ({
+    ...turn,
+    guessers: guessers.map(({ playerId, ...guess }) => guess)
+  }))
+});
+
+// Every recorded game played in a room, newest first
+export const getRoomHistory = (roomCode) => {
+  return [...games.values()]
+    .filter(record => record.roomCode === roomCode)
+    .sort((a, b) => b.endedAt - a.endedAt);
+};
+
+// --- Persistence ---
+
+export const exportHistory = () => {
+  return [...games.values()].map(record => structuredClone(record));
+};
+
+export const restoreHistory = (savedGames) => {
+  games.clear();
+  savedGames.forEach(record => games.set(record.id, record));
+};
+
+export default {
+  MAX_GAME_RECORDS,
+  saveGameRecord,
+  getGameRecord,
+  getRoomHistory,
+  toPublicRecord,
+  exportHistory,
+  restoreHistory
+};
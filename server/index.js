@@ -10,34 +10,109 @@ import {
   createRoom,
   getRoom,
   getPublicRooms,
+  isPlayerInRoom,
+  verifySeatToken,
   addPlayerToRoom,
+  isSpectatorInRoom,
+  addSpectatorToRoom,
+  removeSpectatorFromRoom,
+  isBanned,
+  banFromRoom,
+  setPlayerConnected,
   removePlayerFromRoom,
+  transferHost,
+  updateRoomSettings,
   updateRoomStatus,
   verifyRoomPassword,
-  getPlayerRoom
+  getPlayerRoom,
+  exportRooms,
+  restoreRooms
 } from './rooms.js';
 
 import {
   GamePhase,
-  TURN_DURATION_SECONDS,
+  ChatChannel,
   initializeGameState,
   getGameState,
   updateGameState,
   deleteGameState,
+  exportGameStates,
+  restoreGameStates,
   startGame,
   startRound,
+  addToTurnOrder,
+  removeFromTurnOrder,
+  getNextTurnIndex,
+  getDrawer,
   startTurn,
+  rerollWordOptions,
   selectWord,
-  updateCanvas,
+  revealHints,
+  getWordView,
+  applyDrawing,
+  archiveTurn,
+  recordTurnResult,
   addMessage,
   checkGuess,
   handleCorrectGuess,
   endTurn,
   endRound,
   resetPlayersForTurn,
+  pauseGame,
+  unpauseGame,
+  forfeitDrawerScore,
   decrementTimer
 } from './gameState.js';
 
+import { validateSettings } from './settings.js';
+import { validateCustomWords, getRandomWords } from './words.js';
+import { createStorageFromEnv } from './storage.js';
+import {
+  toPublicProfile,
+  getProfile,
+  verifyProfile,
+  saveProfile,
+  recordGuess,
+  recordDrawingGuessed,
+  recordGameResult,
+  exportProfiles,
+  restoreProfiles
+} from './profiles.js';
+import { saveGameRecord, getGameRecord, getRoomHistory, toPublicRecord, exportHistory, restoreHistory } from './history.js';
+import { formatBreakdown } from './scoring.js';
+import { getTeamCount, balanceTeams, checkTeamsReady, getTeamScores, orderByTeams } from './teams.js';
+import {
+  TelephoneStep,
+  MIN_TELEPHONE_PLAYERS,
+  WRITE_SECONDS,
+  getStepKind,
+  startTelephone,
+  getTelephoneGame,
+  deleteTelephoneGame,
+  startStep,
+  delayStep,
+  applyTelephoneDraw,
+  submitTelephoneEntry,
+  isStepComplete,
+  finishStep,
+  advanceReveal,
+  buildTelephoneView,
+  getTelephoneDraft,
+  exportTelephoneGames,
+  restoreTelephoneGames
+} from './telephone.js';
+import { filterProfanity, checkMessage, checkGuessCooldown, recordWrongGuess, forgetUser } from './chat.js';
+import {
+  createBot,
+  isBot,
+  pickCorrectGuessTime,
+  nextWrongGuessDelay,
+  generateWrongGuess,
+  hasBotDrawing,
+  pickBotWordOption,
+  getBotDrawing
+} from './bots.js';
+
 // Initialize Express app
 const app = express();
 const httpServer = createServer(app);
@@ -73,36 +148,333 @@ const io = new Server(httpServer, {
 const socketToPlayer = new Map();
 const socketToRoom = new Map();
 
-// Helper: Broadcast room state to all players in a room
-const broadcastRoomState = (roomCode) => {
+// How long a disconnected player keeps their seat before being removed
+const RECONNECT_GRACE_MS = 60000;
+
+// Pending removals for disconnected players (keyed by "roomCode:playerId")
+const disconnectTimers = new Map();
+
+// Helper: Find the socket currently attached to a player in a room
+const findPlayerSocket = (roomCode, playerId, excludeSocketId = null) => {
+  for (const [socketId, id] of socketToPlayer) {
+    if (id === playerId && socketToRoom.get(socketId) === roomCode && socketId !== excludeSocketId) {
+      return socketId;
+    }
+  }
+  return null;
+};
+
+// Helper: Cancel a pending removal for a player who came back
+const clearDisconnectTimer = (roomCode, playerId) => {
+  const key = `${roomCode}:${playerId}`;
+  const timer = disconnectTimers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    disconnectTimers.delete(key);
+  }
+};
+
+// Helper: Remove a disconnected player unless they come back within the grace period
+const scheduleDisconnectRemoval = (roomCode, playerId) => {
+  clearDisconnectTimer(roomCode, playerId);
+  disconnectTimers.set(`${roomCode}:${playerId}`, setTimeout(() => {
+    disconnectTimers.delete(`${roomCode}:${playerId}`);
+    removePlayer(roomCode, playerId);
+    console.log(`Player ${playerId} removed from room ${roomCode} (did not reconnect)`);
+  }, RECONNECT_GRACE_MS));
+};
+
+// Pending bot actions per room (cleared whenever a turn ends)
+const botTimers = new Map();
+
+// How much of the turn a bot spends replaying its drawing
+const BOT_DRAWING_SHARE = 0.4;
+
+// Bot drawing being replayed per room: { events, next, stepDelay } - kept through a pause
+const botDrawings = new Map();
+
+// How long a vote-kick stays open
+const VOTE_KICK_DURATION_MS = 30000;
+
+// Open vote-kicks per room: { targetId, startedBy, votes: Set, expiresAt, timer }
+const voteKicks = new Map();
+
+// Helper: A drawer who leaves or loses their connection forfeits the rest of their turn
+const endTurnIfDrawer = (roomCode, playerId, how) => {
   const room = getRoom(roomCode);
+  const drawer = room && getDrawer(roomCode, room.players);
+  if (!drawer || drawer.id !== playerId) return;
+  
   const gameState = getGameState(roomCode);
+  if (gameState.phase !== GamePhase.WORD_SELECTION && gameState.phase !== GamePhase.DRAWING) return;
   
-  if (room) {
-    io.to(roomCode).emit('room-updated', {
-      room: {
-        id: room.id,
-        name: room.name,
-        isPrivate: room.isPrivate,
-        playerCount: room.players.length,
-        maxPlayers: room.maxPlayers,
-        status: room.status,
-        hostId: room.hostId
-      },
-      players: room.players,
-      gameState: gameState ? {
-        phase: gameState.phase,
-        currentRound: gameState.currentRound,
-        totalRounds: gameState.totalRounds,
-        currentPlayerIndex: gameState.currentPlayerIndex,
-        currentWord: gameState.currentWord,
-        // wordOptions intentionally NOT included - sent only to drawer via 'word-options' event
-        timeLeft: gameState.timeLeft,
-        messages: gameState.messages,
-        canvasData: gameState.canvasData
-      } : null
-    });
+  forfeitDrawerScore(roomCode, room.players);
+  handleTurnEnd(roomCode, `${drawer.name} ${how}, so their turn is over.`);
+};
+
+// Helper: Drop someone's chat limits once they've been gone for a grace period, so leaving
+// and rejoining doesn't reset a cooldown
+const scheduleForgetLimits = (roomCode, userId) => {
+  setTimeout(() => {
+    const room = getRoom(roomCode);
+    const isBack = room && (room.players.some(p => p.id === userId) || room.spectators.some(s => s.id === userId));
+    if (!isBack) forgetUser(userId);
+  }, RECONNECT_GRACE_MS);
+};
+
+// Helper: Remove a player for good and clean up the room if it's empty
+const removePlayer = (roomCode, playerId) => {
+  clearDisconnectTimer(roomCode, playerId);
+  if (voteKicks.get(roomCode)?.targetId === playerId) {
+    cancelVoteKick(roomCode);
+  }
+  
+  // Ended while they're still listed, so the turn is recorded under their name
+  endTurnIfDrawer(roomCode, playerId, 'left');
+  removeFromTurnOrder(roomCode, playerId);
+  
+  const result = removePlayerFromRoom(roomCode, playerId);
+  scheduleForgetLimits(roomCode, playerId);
+  
+  if (result.deleted) {
+    clearBotTimers(roomCode);
+    botDrawings.delete(roomCode);
+    cancelVoteKick(roomCode);
+    deleteGameState(roomCode);
+    deleteTelephoneGame(roomCode);
+    scheduleSave();
+    console.log(`Room ${roomCode} deleted (empty)`);
+  } else if (result.room) {
+    broadcastRoomState(roomCode);
+  }
+  
+  return result;
+};
+
+// Helper: Check whether a socket's user is watching rather than playing
+const isSpectator = (room, userId) => Boolean(room) && room.spectators.some(s => s.id === userId);
+
+// Helper: Drop a spectator and let the room know
+const removeSpectator = (roomCode, spectatorId) => {
+  const result = removeSpectatorFromRoom(roomCode, spectatorId);
+  scheduleForgetLimits(roomCode, spectatorId);
+  if (result.success) {
+    broadcastRoomState(roomCode);
+  }
+  return result;
+};
+
+// Helper: Whether a chat message should be shown to a viewer
+const canSeeMessage = (message, viewer) => {
+  if (message.visibleTo && !message.visibleTo.includes(viewer.id)) return false;
+  // Spectator chat stays among spectators
+  if (message.channel === ChatChannel.SPECTATOR) return viewer.isSpectator;
+  // Guessed-players chat could spoil the word, so it follows the same rule as the word itself
+  if (message.channel === ChatChannel.GUESSED) return viewer.knowsWord;
+  return true;
+};
+
+// Helper: Which channel a chat message from this user goes to
+const getChatChannel = (room, userId) => {
+  if (isSpectator(room, userId)) return ChatChannel.SPECTATOR;
+  
+  const gameState = getGameState(room.id);
+  if (!gameState || gameState.phase !== GamePhase.DRAWING) return ChatChannel.ALL;
+  
+  const player = room.players.find(p => p.id === userId);
+  const drawer = getDrawer(room.id, room.players);
+  const knowsWord = (drawer && drawer.id === userId) || (player && player.hasGuessedCorrectly);
+  return knowsWord ? ChatChannel.GUESSED : ChatChannel.ALL;
+};
+
+// Helper: Room data safe to hand back to a client (custom words would spoil the game)
+const toRoomInfo = (room) => {
+  const { customWords, bannedIds, bannedProfileIds, seatTokens, ...info } = room;
+  return info;
+};
+
+// ==================== Moderation ====================
+
+// Helper: Remove someone from a room against their will and tell them why
+const kickFromRoom = (roomCode, targetId, reason, ban = false) => {
+  const room = getRoom(roomCode);
+  if (!room) return;
+  
+  const spectator = room.spectators.find(s => s.id === targetId);
+  const target = spectator || room.players.find(p => p.id === targetId);
+  if (!target) return;
+  
+  if (ban) {
+    banFromRoom(roomCode, targetId, target.profileId || null);
+  }
+  
+  // Detach every socket they have in the room
+  for (const [socketId, id] of [...socketToPlayer]) {
+    if (id !== targetId || socketToRoom.get(socketId) !== roomCode) continue;
+    
+    io.to(socketId).emit('kicked', { roomCode, roomName: room.name, reason, banned: ban });
+    io.sockets.sockets.get(socketId)?.leave(roomCode);
+    socketToPlayer.delete(socketId);
+    socketToRoom.delete(socketId);
+  }
+  
+  addMessage(roomCode, {
+    playerId: 'system',
+    playerName: 'Host',
+    text: `${target.name} was ${ban ? 'banned' : 'kicked'}.`,
+    isSystem: true
+  });
+  
+  if (spectator) {
+    removeSpectator(roomCode, targetId);
+  } else {
+    removePlayer(roomCode, targetId);
+  }
+  
+  console.log(`${target.name} ${ban ? 'banned' : 'kicked'} from room ${roomCode}: ${reason}`);
+};
+
+// Helper: Whether the host is currently in the room
+const isHostPresent = (room) => room.players.some(p => p.id === room.hostId && p.isConnected !== false);
+
+// Helper: Connected humans who get a say in a vote-kick (the target doesn't)
+const getVoteKickVoters = (room, targetId) =>
+  room.players.filter(p => !isBot(p) && p.isConnected !== false && p.id !== targetId);
+
+// Helper: Simple majority of the eligible voters
+const getVotesNeeded = (room, targetId) => Math.floor(getVoteKickVoters(room, targetId).length / 2) + 1;
+
+// Helper: Close a vote-kick without acting on it
+const cancelVoteKick = (roomCode) => {
+  const vote = voteKicks.get(roomCode);
+  if (vote) {
+    clearTimeout(vote.timer);
+    voteKicks.delete(roomCode);
+  }
+};
+
+// Helper: Record a vote and kick the target once a majority agrees
+const castVoteKick = (roomCode, voterId) => {
+  const room = getRoom(roomCode);
+  const vote = voteKicks.get(roomCode);
+  
+  if (!room || !vote) return { success: false, error: 'No vote in progress' };
+  
+  if (!getVoteKickVoters(room, vote.targetId).some(p => p.id === voterId)) {
+    return { success: false, error: 'You cannot vote on this' };
   }
+  
+  vote.votes.add(voterId);
+  
+  if (vote.votes.size >= getVotesNeeded(room, vote.targetId)) {
+    cancelVoteKick(roomCode);
+    kickFromRoom(roomCode, vote.targetId, 'Removed by a player vote');
+  } else {
+    broadcastRoomState(roomCode);
+  }
+  
+  return { success: true };
+};
+
+// Helper: Vote-kick state as seen by one player
+const buildVoteKickView = (room, playerId) => {
+  const vote = voteKicks.get(room.id);
+  if (!vote) return null;
+  
+  const target = room.players.find(p => p.id === vote.targetId);
+  return {
+    targetId: vote.targetId,
+    targetName: target ? target.name : 'Unknown',
+    votes: vote.votes.size,
+    needed: getVotesNeeded(room, vote.targetId),
+    expiresAt: vote.expiresAt,
+    hasVoted: vote.votes.has(playerId)
+  };
+};
+
+// Helper: Build the room state payload as seen by one player
+const buildRoomPayload = (roomCode, playerId) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  
+  if (!room) return null;
+  
+  // The word is resolved per player so guessers never receive the answer
+  const wordView = getWordView(roomCode, playerId, room.players);
+  const viewer = {
+    id: playerId,
+    isSpectator: isSpectator(room, playerId),
+    knowsWord: wordView.currentWord !== null
+  };
+  
+  return {
+    room: {
+      id: room.id,
+      name: room.name,
+      isPrivate: room.isPrivate,
+      playerCount: room.players.length,
+      spectatorCount: room.spectators.length,
+      maxPlayers: room.maxPlayers,
+      status: room.status,
+      hostId: room.hostId,
+      settings: room.settings,
+      // Only a summary - the words themselves would spoil the game
+      customWords: room.customWords
+        ? { mode: room.customWords.mode, count: room.customWords.words.length }
+        : null
+    },
+    players: room.players,
+    spectators: room.spectators,
+    voteKick: buildVoteKickView(room, playerId),
+    gameState: gameState ? {
+      phase: gameState.phase,
+      currentRound: gameState.currentRound,
+      totalRounds: gameState.totalRounds,
+      drawerId: gameState.drawerId,
+      currentPlayerIndex: room.players.findIndex(p => p.id === gameState.drawerId),
+      currentWord: wordView.currentWord,
+      maskedWord: wordView.maskedWord,
+      // wordOptions intentionally NOT included - sent only to drawer via 'word-options' event
+      timeLeft: gameState.timeLeft,
+      paused: Boolean(gameState.pausedAt),
+      rerollsLeft: gameState.rerollsLeft,
+      // Match history id, once the game is over (see /games/:id)
+      gameId: gameState.gameId,
+      telephone: buildTelephoneView(roomCode, playerId, gameState.phase === GamePhase.TELEPHONE_REVEAL),
+      // None when the turn ended before a word was picked
+      turnSummary: gameState.phase === GamePhase.TURN_END && gameState.currentWord
+        ? gameState.turnResults[gameState.turnResults.length - 1] || null
+        : null,
+      // Private messages (close-guess hints, spectator and guessed-players chat) only go to their audience
+      messages: gameState.messages.filter(m => canSeeMessage(m, viewer))
+      // drawing intentionally NOT included - sent via 'drawing-sync' and 'draw-event'
+    } : null
+  };
+};
+
+// Helper: Broadcast room state to all players in a room (personalised per socket)
+const broadcastRoomState = (roomCode) => {
+  if (!getRoom(roomCode)) return;
+  
+  // Anything worth telling the room is worth saving
+  scheduleSave();
+  
+  socketToRoom.forEach((socketRoomCode, socketId) => {
+    if (socketRoomCode !== roomCode) return;
+    io.to(socketId).emit('room-updated', buildRoomPayload(roomCode, socketToPlayer.get(socketId)));
+  });
+};
+
+// Helper: Send the full stroke list (to a room or a single socket)
+const syncDrawing = (target, roomCode) => {
+  const gameState = getGameState(roomCode);
+  io.to(target).emit('drawing-sync', { drawing: gameState ? gameState.drawing : [] });
+};
+
+// Helper: Send the game's finished drawings (to a room or a single socket)
+const syncGallery = (target, roomCode) => {
+  const gameState = getGameState(roomCode);
+  io.to(target).emit('gallery', { gallery: gameState ? gameState.gallery : [] });
 };
 
 // Helper: Start timer for a turn
@@ -121,6 +493,11 @@ const startTurnTimer = (roomCode) => {
     if (timeLeft !== null) {
       io.to(roomCode).emit('timer-update', { timeLeft });
       
+      // A new hint letter changes everyone's masked word
+      if (revealHints(roomCode)) {
+        broadcastRoomState(roomCode);
+      }
+      
       if (timeLeft <= 0) {
         handleTurnEnd(roomCode);
       }
@@ -128,56 +505,207 @@ const startTurnTimer = (roomCode) => {
   }, 1000);
 };
 
-// Helper: Handle turn end
-const handleTurnEnd = (roomCode) => {
+// Helper: Count down the drawer's word choice; a random option is picked when it runs out
+const startWordSelectionTimer = (roomCode) => {
+  const gameState = getGameState(roomCode);
+  if (!gameState) return;
+  
+  if (gameState.timerInterval) {
+    clearInterval(gameState.timerInterval);
+  }
+  
+  gameState.timerInterval = setInterval(() => {
+    const timeLeft = decrementTimer(roomCode);
+    
+    if (timeLeft !== null) {
+      io.to(roomCode).emit('timer-update', { timeLeft });
+      
+      if (timeLeft <= 0) {
+        autoPickWord(roomCode);
+      }
+    }
+  }, 1000);
+};
+
+// Helper: Pick a random word for a drawer who didn't choose in time
+const autoPickWord = (roomCode) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  if (!room || !gameState || gameState.phase !== GamePhase.WORD_SELECTION) return;
+  
+  const drawer = getDrawer(roomCode, room.players);
+  const options = gameState.wordOptions;
+  if (!drawer || options.length === 0) return;
+  
+  handleSelectWord(roomCode, drawer.id, options[Math.floor(Math.random() * options.length)]);
+};
+
+// Helper: Handle turn end. Usually the timer runs out, but a turn can also be cut short
+// (e.g. the drawer left) - even before a word was picked - with its own reason.
+const handleTurnEnd = (roomCode, reason = "Time's up!") => {
   const room = getRoom(roomCode);
   const gameState = getGameState(roomCode);
+  // The timer and the "everyone guessed" shortcut can both end the turn - only once counts
   if (!room || !gameState) return;
+  if (gameState.phase !== GamePhase.DRAWING && gameState.phase !== GamePhase.WORD_SELECTION) return;
   
   endTurn(roomCode);
+  clearBotTimers(roomCode);
+  botDrawings.delete(roomCode);
+  archiveTurn(roomCode, room.players);
+  recordTurnResult(roomCode, room.players);
+  
+  const drawer = getDrawer(roomCode, room.players);
+  if (drawer?.profileId && room.players.some(p => p.hasGuessedCorrectly && p.id !== drawer.id)) {
+    recordDrawingGuessed(drawer.profileId);
+  }
   
   // Add system message
   addMessage(roomCode, {
     playerId: 'system',
     playerName: 'Host',
-    text: `Time's up! The word was: ${gameState.currentWord?.word}`,
+    text: gameState.currentWord ? `${reason} The word was: ${gameState.currentWord.word}` : reason,
     isSystem: true
   });
   
   broadcastRoomState(roomCode);
   
   // After 6 seconds, move to next turn or end round
+  schedulePhaseStep(roomCode, Date.now() + 6000);
+};
+
+// Helper: Move the game on once a pause between phases is over
+const advanceGame = (roomCode) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  if (!room || !gameState) return;
+  
+  updateGameState(roomCode, { phaseEndsAt: null });
+  
+  switch (gameState.phase) {
+    case GamePhase.DRAWING:
+      // Everyone guessed before the time ran out
+      handleTurnEnd(roomCode);
+      break;
+    case GamePhase.TURN_END:
+      handleNextTurn(roomCode, getNextTurnIndex(roomCode, room.players));
+      break;
+    case GamePhase.ROUND_END:
+      handleStartRound(roomCode, gameState.currentRound + 1);
+      break;
+    case GamePhase.TELEPHONE_PROMPT:
+    case GamePhase.TELEPHONE_DRAW:
+    case GamePhase.TELEPHONE_DESCRIBE:
+      handleTelephoneStep(roomCode);
+      break;
+    case GamePhase.ROUND_START:
+      handleNextTurn(roomCode, getNextTurnIndex(roomCode, room.players));
+      break;
+  }
+};
+
+// Helper: Advance the game at a stored time. The end time is kept in the game state so the
+// pause can resume after a restart; a timer whose end time was replaced does nothing.
+const schedulePhaseStep = (roomCode, endsAt) => {
+  updateGameState(roomCode, { phaseEndsAt: endsAt });
+  
   setTimeout(() => {
-    const nextIdx = gameState.currentPlayerIndex + 1;
-    
-    if (nextIdx >= room.players.length) {
-      // End round
-      handleRoundEnd(roomCode);
-    } else {
-      // Next turn
-      handleNextTurn(roomCode, nextIdx);
+    const gameState = getGameState(roomCode);
+    // While paused the step waits - resuming schedules it again for the later time
+    if (gameState && gameState.phaseEndsAt === endsAt && !gameState.pausedAt) {
+      advanceGame(roomCode);
     }
-  }, 6000);
+  }, Math.max(0, endsAt - Date.now()));
+};
+
+// Phases the host can pause (Telephone steps and the word options being dealt can't be;
+// mirrored in constants.ts)
+const PAUSABLE_PHASES = [
+  GamePhase.ROUND_START,
+  GamePhase.WORD_SELECTION,
+  GamePhase.DRAWING,
+  GamePhase.TURN_END,
+  GamePhase.ROUND_END
+];
+
+// Game phase for each kind of telephone step
+const TELEPHONE_PHASES = {
+  [TelephoneStep.PROMPT]: GamePhase.TELEPHONE_PROMPT,
+  [TelephoneStep.DRAW]: GamePhase.TELEPHONE_DRAW,
+  [TelephoneStep.DESCRIBE]: GamePhase.TELEPHONE_DESCRIBE
+};
+
+// Helper: Send each player the drawing they are working on (telephone mode)
+const syncTelephoneDrafts = (roomCode) => {
+  socketToRoom.forEach((socketRoomCode, socketId) => {
+    if (socketRoomCode !== roomCode) return;
+    io.to(socketId).emit('drawing-sync', { drawing: getTelephoneDraft(roomCode, socketToPlayer.get(socketId)) || [] });
+  });
+};
+
+// Helper: Close the current telephone step and hand out the next one, or start the reveal
+// once every chain is complete
+const handleTelephoneStep = (roomCode) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  const game = getTelephoneGame(roomCode);
+  if (!room || !gameState || !game) return;
+  
+  // Prompts nobody wrote get a random word
+  if (game.step >= 0 && finishStep(roomCode, () => getRandomWords(1)[0])) {
+    updateGameState(roomCode, { phase: GamePhase.TELEPHONE_REVEAL });
+    broadcastRoomState(roomCode);
+    return;
+  }
+  
+  const kind = getStepKind(game.step + 1);
+  startStep(roomCode, room.players, kind === TelephoneStep.DRAW ? gameState.settings.drawTime : WRITE_SECONDS);
+  updateGameState(roomCode, { phase: TELEPHONE_PHASES[kind] });
+  
+  syncTelephoneDrafts(roomCode);
+  broadcastRoomState(roomCode);
+  schedulePhaseStep(roomCode, game.stepEndsAt);
 };
 
 // Helper: Handle round end
 const handleRoundEnd = (roomCode) => {
+  const room = getRoom(roomCode);
   const gameState = getGameState(roomCode);
-  if (!gameState) return;
+  if (!room || !gameState) return;
   
   endRound(roomCode);
-  broadcastRoomState(roomCode);
   
   if (gameState.phase === GamePhase.GAME_OVER) {
-    // Game is over
+    recordGameResults(roomCode);
+    const record = saveGameRecord(room, gameState);
+    updateGameState(roomCode, { gameId: record.id });
+    
+    // Game is over - the gallery goes out first so it's there when the results show
+    syncGallery(roomCode, roomCode);
+    broadcastRoomState(roomCode);
     return;
   }
   
+  broadcastRoomState(roomCode);
+  
   // After 8 seconds, start next round
-  setTimeout(() => {
-    const nextRound = gameState.currentRound + 1;
-    handleStartRound(roomCode, nextRound);
-  }, 8000);
+  schedulePhaseStep(roomCode, Date.now() + 8000);
+};
+
+// Helper: Count a finished game towards everyone's profile (ties share the win)
+const recordGameResults = (roomCode) => {
+  const room = getRoom(roomCode);
+  if (!room || room.players.length === 0) return;
+  
+  // In team mode everyone on the top team wins
+  const teamCount = getTeamCount(room.settings);
+  const teamScores = getTeamScores(room.players, teamCount);
+  const scoreOf = (p) => teamCount > 0 ? teamScores[p.teamId]?.score ?? 0 : p.score;
+  
+  const topScore = Math.max(...room.players.map(scoreOf));
+  room.players
+    .filter(p => p.profileId)
+    .forEach(p => recordGameResult(p.profileId, scoreOf(p) === topScore));
 };
 
 // Helper: Start a round
@@ -197,18 +725,16 @@ const handleStartRound = (roomCode, roundNum) => {
   broadcastRoomState(roomCode);
   
   // After 3 seconds, start first turn
-  setTimeout(() => {
-    handleNextTurn(roomCode, 0);
-  }, 3000);
+  schedulePhaseStep(roomCode, Date.now() + 3000);
 };
 
-// Helper: Handle next turn
-const handleNextTurn = async (roomCode, playerIndex) => {
+// Helper: Handle next turn (turnIndex is a position in the turn order, -1 when nobody is left)
+const handleNextTurn = async (roomCode, turnIndex) => {
   const room = getRoom(roomCode);
   const gameState = getGameState(roomCode);
   if (!room || !gameState) return;
   
-  if (playerIndex >= room.players.length) {
+  if (turnIndex === -1 || turnIndex >= gameState.turnOrder.length) {
     handleRoundEnd(roomCode);
     return;
   }
@@ -216,10 +742,26 @@ const handleNextTurn = async (roomCode, playerIndex) => {
   // Reset players for new turn
   resetPlayersForTurn(room.players);
   
-  await startTurn(roomCode, playerIndex);
+  await startTurn(roomCode, turnIndex);
+  
+  // The drawer has a limited time to choose
+  startWordSelectionTimer(roomCode);
+  
+  // Wipe everyone's canvas for the new turn
+  syncDrawing(roomCode, roomCode);
   
   // Get the current drawer
-  const drawer = room.players[playerIndex];
+  const drawer = getDrawer(roomCode, room.players);
+  if (!drawer || drawer.isConnected === false) {
+    // They left (or lost their connection) while the word options were being generated
+    handleTurnEnd(roomCode, 'The drawer left.');
+    return;
+  }
+  
+  // Bots pick their own word
+  if (isBot(drawer)) {
+    scheduleBotWordPick(roomCode, drawer);
+  }
   
   // Send word options only to the drawer
   const drawerSocket = [...socketToPlayer.entries()].find(
@@ -235,84 +777,460 @@ const handleNextTurn = async (roomCode, playerIndex) => {
   broadcastRoomState(roomCode);
 };
 
-// ==================== Socket Event Handlers ====================
+// ==================== Bots ====================
 
-io.on('connection', (socket) => {
-  console.log(`Client connected: ${socket.id}`);
+// Helper: Run a bot action later, tracked so it can be cancelled with the turn
+const scheduleBotAction = (roomCode, delay, action) => {
+  const timers = botTimers.get(roomCode) || new Set();
+  const timer = setTimeout(() => {
+    timers.delete(timer);
+    action();
+  }, delay);
   
-  // --- Room Events ---
-  
-  // Create a new room
-  socket.on('create-room', ({ roomName, isPrivate, password }, callback) => {
-    const room = createRoom(roomName, isPrivate, password);
-    initializeGameState(room.id);
-    
-    console.log(`Room created: ${room.id} - ${roomName}`);
-    
-    callback({ success: true, room });
-  });
-  
-  // Join a room
-  socket.on('join-room', ({ roomCode, password, player }, callback) => {
-    const room = getRoom(roomCode);
+  timers.add(timer);
+  botTimers.set(roomCode, timers);
+};
+
+// Helper: Cancel all pending bot actions in a room
+const clearBotTimers = (roomCode) => {
+  const timers = botTimers.get(roomCode);
+  if (timers) {
+    timers.forEach(timer => clearTimeout(timer));
+    botTimers.delete(roomCode);
+  }
+};
+
+// Helper: Bot drawer picks one of its word options after a short pause
+// (only ever one it has a drawing for - it asks for new words first, then falls back to one it knows)
+const scheduleBotWordPick = (roomCode, bot) => {
+  scheduleBotAction(roomCode, 2000 + Math.random() * 2000, async () => {
+    let gameState = getGameState(roomCode);
+    if (!gameState || gameState.phase !== GamePhase.WORD_SELECTION) return;
     
-    if (!room) {
-      callback({ success: false, error: 'Room not found' });
-      return;
+    if (!gameState.wordOptions.some(o => hasBotDrawing(o.word)) && gameState.rerollsLeft > 0) {
+      gameState = await rerollWordOptions(roomCode);
+      if (!gameState || gameState.phase !== GamePhase.WORD_SELECTION) return;
     }
     
-    // Verify password if private
-    if (room.isPrivate && room.password) {
-      const { valid } = verifyRoomPassword(roomCode, password);
-      if (!valid) {
-        callback({ success: false, error: 'Incorrect password' });
-        return;
-      }
+    let drawable = gameState.wordOptions.filter(o => hasBotDrawing(o.word));
+    if (drawable.length === 0) {
+      drawable = [pickBotWordOption()];
+      updateGameState(roomCode, { wordOptions: drawable });
     }
     
-    // Add player to room
-    const result = addPlayerToRoom(roomCode, player);
+    handleSelectWord(roomCode, bot.id, drawable[Math.floor(Math.random() * drawable.length)]);
+  });
+};
+
+// Helper: Replay a pre-recorded drawing as stroke events, spread over part of the turn
+const replayBotDrawing = (roomCode, word, drawTime) => {
+  const events = [];
+  getBotDrawing(word).forEach(stroke => {
+    const id = Math.random().toString(36).substr(2, 9);
+    const [first, ...rest] = stroke.points;
     
-    if (!result.success) {
-      callback({ success: false, error: result.error });
+    events.push({
+      type: 'stroke-start',
+      stroke: { kind: 'stroke', id, tool: 'pen', color: stroke.color, width: stroke.width, points: [first] }
+    });
+    for (let i = 0; i < rest.length; i += 2) {
+      events.push({ type: 'stroke-points', id, points: rest.slice(i, i + 2) });
+    }
+    events.push({ type: 'stroke-end', id });
+  });
+  if (events.length === 0) return;
+  
+  const stepDelay = Math.max(30, (drawTime * 1000 * BOT_DRAWING_SHARE) / events.length);
+  botDrawings.set(roomCode, { events, next: 0, stepDelay });
+  
+  playBotDrawing(roomCode, 1000);
+};
+
+// Helper: Send the bot's drawing on from the next op it hasn't drawn yet
+const playBotDrawing = (roomCode, delay) => {
+  const replay = botDrawings.get(roomCode);
+  if (!replay) return;
+  
+  const playNext = () => {
+    if (replay.next >= replay.events.length) {
+      botDrawings.delete(roomCode);
       return;
     }
     
-    // Join socket room
-    socket.join(roomCode);
-    socketToPlayer.set(socket.id, player.id);
-    socketToRoom.set(socket.id, roomCode);
+    const applied = applyDrawing(roomCode, replay.events[replay.next]);
+    if (!applied) return; // Turn is over
     
-    // Initialize game state if not exists
-    if (!getGameState(roomCode)) {
-      initializeGameState(roomCode);
-    }
+    replay.next++;
+    io.to(roomCode).emit('draw-event', applied);
+    scheduleBotAction(roomCode, replay.stepDelay, playNext);
+  };
+  
+  scheduleBotAction(roomCode, delay, playNext);
+};
+
+// Helper: Bot guesser submits wrong guesses until its "aha" moment (if it has one)
+const scheduleBotGuesses = (roomCode, bot, drawTime) => {
+  const correctAt = pickCorrectGuessTime(drawTime);
+  
+  const nextDelay = () => {
+    const gameState = getGameState(roomCode);
+    const delay = nextWrongGuessDelay();
+    if (correctAt === null || !gameState) return delay;
     
-    console.log(`Player ${player.name} joined room ${roomCode}`);
+    const untilCorrect = (correctAt - (drawTime - gameState.timeLeft)) * 1000;
+    return Math.max(500, Math.min(delay, untilCorrect));
+  };
+  
+  const guess = () => {
+    const gameState = getGameState(roomCode);
+    if (!gameState || gameState.phase !== GamePhase.DRAWING || !gameState.currentWord || bot.hasGuessedCorrectly) return;
     
-    // Broadcast to all in room
-    broadcastRoomState(roomCode);
+    const elapsed = drawTime - gameState.timeLeft;
+    if (correctAt !== null && elapsed >= correctAt) {
+      handleGuess(roomCode, bot.id, gameState.currentWord.word);
+      return;
+    }
     
-    callback({ success: true, room: result.room });
-  });
+    handleGuess(roomCode, bot.id, generateWrongGuess(gameState.currentWord.word));
+    scheduleBotAction(roomCode, nextDelay(), guess);
+  };
   
-  // Leave a room
-  socket.on('leave-room', (callback) => {
-    const roomCode = socketToRoom.get(socket.id);
-    const playerId = socketToPlayer.get(socket.id);
-    
-    if (roomCode && playerId) {
-      const result = removePlayerFromRoom(roomCode, playerId);
-      
-      socket.leave(roomCode);
+  scheduleBotAction(roomCode, nextDelay(), guess);
+};
+
+// Helper: Kick off bot activity once the drawing phase starts
+const startBotTurn = (roomCode) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  if (!room || !gameState || !gameState.currentWord) return;
+  
+  const drawer = getDrawer(roomCode, room.players);
+  const drawTime = gameState.settings.drawTime;
+  
+  if (isBot(drawer)) {
+    replayBotDrawing(roomCode, gameState.currentWord.word, drawTime);
+  }
+  
+  room.players
+    .filter(p => isBot(p) && p.id !== drawer?.id)
+    .forEach(bot => scheduleBotGuesses(roomCode, bot, drawTime));
+};
+
+// Helper: Drawer picks a word and the drawing phase begins
+const handleSelectWord = (roomCode, playerId, word) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  
+  if (!room || !gameState) {
+    return { success: false, error: 'Room not found' };
+  }
+  
+  // Check if it's this player's turn
+  const currentDrawer = getDrawer(roomCode, room.players);
+  if (!currentDrawer || currentDrawer.id !== playerId) {
+    return { success: false, error: 'Not your turn' };
+  }
+  
+  // The countdown may have picked for them already
+  if (gameState.phase !== GamePhase.WORD_SELECTION) {
+    return { success: false, error: 'A word has already been picked' };
+  }
+  
+  if (gameState.pausedAt) {
+    return { success: false, error: 'The game is paused' };
+  }
+  
+  const option = gameState.wordOptions.find(o => o.word === word?.word);
+  if (!option) {
+    return { success: false, error: 'That word is not one of your options' };
+  }
+  
+  selectWord(roomCode, option);
+  
+  addMessage(roomCode, {
+    playerId: 'system',
+    playerName: 'Host',
+    text: `${currentDrawer.name} selected a word!`,
+    isSystem: true
+  });
+  
+  // Start the timer
+  startTurnTimer(roomCode);
+  
+  // Let any bots in the room start drawing / guessing
+  startBotTurn(roomCode);
+  
+  broadcastRoomState(roomCode);
+  
+  return { success: true };
+};
+
+// Helper: Process a guess from a player (humans and bots go through the same path).
+// rateLimited is set for humans so their wrong guesses count towards the guess cooldown.
+const handleGuess = (roomCode, playerId, text, rateLimited = false) => {
+  const room = getRoom(roomCode);
+  const gameState = getGameState(roomCode);
+  
+  if (!room || !gameState) {
+    return { success: false };
+  }
+  
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) {
+    return { success: false };
+  }
+  
+  // Check if it's the drawer (they can only chat, not guess)
+  const currentDrawer = getDrawer(roomCode, room.players);
+  const isDrawer = currentDrawer && currentDrawer.id === playerId;
+  
+  // Telephone has no word to guess, so everything said there is chat as well
+  const isTelephone = room.settings.mode === 'TELEPHONE';
+  
+  // If already guessed, treat as chat - kept among those who know the word while it's being drawn
+  if (player.hasGuessedCorrectly || isDrawer || isTelephone) {
+    addMessage(roomCode, {
+      playerId,
+      playerName: player.name,
+      text: filterProfanity(text),
+      isSystem: false,
+      isCorrectGuess: false,
+      channel: getChatChannel(room, playerId)
+    });
+    
+    broadcastRoomState(roomCode);
+    return { success: true, isCorrect: false };
+  }
+  
+  // The clock is stopped, so guessing is too
+  if (gameState.pausedAt && gameState.phase === GamePhase.DRAWING) {
+    return { success: false, error: 'The game is paused' };
+  }
+  
+  // Only a guess while the word is being drawn counts towards (or is held up by) the cooldown
+  const isGuess = gameState.phase === GamePhase.DRAWING;
+  
+  if (rateLimited && isGuess) {
+    const cooldown = checkGuessCooldown(playerId);
+    if (!cooldown.allowed) {
+      return { success: false, error: cooldown.error, retryAfter: cooldown.retryAfter };
+    }
+  }
+  
+  // Check if guess is correct
+  const { isCorrect, isClose } = checkGuess(roomCode, text);
+  
+  if (isCorrect && gameState.phase === GamePhase.DRAWING) {
+    const result = handleCorrectGuess(roomCode, playerId, room.players);
+    
+    if (result) {
+      if (player.profileId) {
+        recordGuess(player.profileId, result.timeMs);
+      }
+      
+      addMessage(roomCode, {
+        playerId,
+        playerName: player.name,
+        text: result.drawerScore.points > 0
+          ? `Guessed the word! (${formatBreakdown(result.guessScore)}; drawer ${formatBreakdown(result.drawerScore)})`
+          : `Guessed the word! (${formatBreakdown(result.guessScore)})`,
+        isSystem: false,
+        isCorrectGuess: true
+      });
+      
+      broadcastRoomState(roomCode);
+      
+      // If all guessed, end turn early (on the phase timer, so a pause holds it)
+      if (result.allGuessed) {
+        schedulePhaseStep(roomCode, Date.now() + 2000);
+      }
+      
+      return { success: true, isCorrect: true, points: result.points };
+    }
+  }
+  
+  if (rateLimited && isGuess) {
+    recordWrongGuess(playerId);
+  }
+  
+  // Near miss - tell only the guesser, and don't reveal the text to the room
+  if (isClose && gameState.phase === GamePhase.DRAWING) {
+    addMessage(roomCode, {
+      playerId: 'system',
+      playerName: 'Host',
+      text: `'${filterProfanity(text.trim())}' is close!`,
+      isSystem: true,
+      isCloseGuess: true,
+      visibleTo: [playerId]
+    });
+    
+    broadcastRoomState(roomCode);
+    return { success: true, isCorrect: false, isClose: true };
+  }
+  
+  // Wrong guess - show as regular message
+  addMessage(roomCode, {
+    playerId,
+    playerName: player.name,
+    text: filterProfanity(text),
+    isSystem: false,
+    isCorrectGuess: false
+  });
+  
+  broadcastRoomState(roomCode);
+  return { success: true, isCorrect: false };
+};
+
+// ==================== Socket Event Handlers ====================
+
+io.on('connection', (socket) => {
+  console.log(`Client connected: ${socket.id}`);
+  
+  // --- Room Events ---
+  
+  // Create a new room
+  socket.on('create-room', ({ roomName, isPrivate, password, settings, customWords }, callback) => {
+    const validation = validateSettings(settings);
+    if (!validation.valid) {
+      callback({ success: false, error: validation.error });
+      return;
+    }
+    
+    const wordValidation = validateCustomWords(customWords);
+    if (!wordValidation.valid) {
+      callback({ success: false, error: wordValidation.error });
+      return;
+    }
+    
+    const room = createRoom(roomName, isPrivate, password, null, validation.settings, wordValidation.customWords);
+    initializeGameState(room.id, room.settings);
+    
+    console.log(`Room created: ${room.id} - ${roomName}`);
+    
+    callback({ success: true, room: toRoomInfo(room) });
+  });
+  
+  // Join a room
+  socket.on('join-room', ({ roomCode, password, player, spectate: wantsToSpectate = false, profile = null, seatToken = null }, callback) => {
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    // Telephone chains are dealt out when the game starts, so newcomers watch until the next one
+    const spectate = wantsToSpectate || (room.settings.mode === 'TELEPHONE' && room.status === 'PLAYING' &&
+      !isPlayerInRoom(roomCode, player.id));
+    
+    // Players reconnecting to their own seat don't need the password again - but only with the
+    // seat's token, since anyone can see a player's id
+    const isRejoin = verifySeatToken(roomCode, player.id, seatToken) && (spectate
+      ? isSpectatorInRoom(roomCode, player.id)
+      : isPlayerInRoom(roomCode, player.id));
+    
+    // Stats only go to a profile the player holds the token for
+    const profileId = profile && verifyProfile(profile.id, profile.token) ? profile.id : null;
+    
+    if (isBanned(roomCode, player.id, profileId)) {
+      callback({ success: false, error: 'You are banned from this room' });
+      return;
+    }
+    
+    // Verify password if private
+    if (!isRejoin && room.isPrivate && room.password) {
+      const { valid } = verifyRoomPassword(roomCode, password);
+      if (!valid) {
+        callback({ success: false, error: 'Incorrect password' });
+        return;
+      }
+    }
+    
+    // Add player (or spectator) to room. The client only picks who it is - score, type and the
+    // rest are the server's to set, or anyone could join as a bot or with a head start.
+    const result = spectate
+      ? addSpectatorToRoom(roomCode, player, seatToken)
+      : addPlayerToRoom(roomCode, { id: player.id, name: player.name, avatar: player.avatar, type: 'HUMAN', profileId }, seatToken);
+    
+    if (!result.success) {
+      callback({ success: false, error: result.error });
+      return;
+    }
+    
+    // Join socket room
+    socket.join(roomCode);
+    socketToPlayer.set(socket.id, player.id);
+    socketToRoom.set(socket.id, roomCode);
+    
+    if (result.rejoined) {
+      clearDisconnectTimer(roomCode, player.id);
+      if (!spectate) releaseRestoredGame(result.room);
+      
+      // Drop a stale socket left over from before the reconnect
+      const staleSocketId = findPlayerSocket(roomCode, player.id, socket.id);
+      if (staleSocketId) {
+        socketToPlayer.delete(staleSocketId);
+        socketToRoom.delete(staleSocketId);
+      }
+    }
+    
+    // Initialize game state if not exists
+    if (!getGameState(roomCode)) {
+      initializeGameState(roomCode, room.settings);
+    }
+    
+    console.log(`${spectate ? 'Spectator' : 'Player'} ${player.name} ${result.rejoined ? 'rejoined' : 'joined'} room ${roomCode}`);
+    
+    if (result.joinedMidGame) {
+      addToTurnOrder(roomCode, player.id);
+      addMessage(roomCode, {
+        playerId: 'system',
+        playerName: 'Host',
+        text: `${player.name} joined the game!`,
+        isSystem: true
+      });
+    }
+    
+    // Broadcast to all in room
+    broadcastRoomState(roomCode);
+    
+    // Send the current drawing so late joiners can rebuild the canvas (in Telephone, their own)
+    const draft = getTelephoneDraft(roomCode, player.id);
+    if (draft) {
+      socket.emit('drawing-sync', { drawing: draft });
+    } else {
+      syncDrawing(socket.id, roomCode);
+    }
+    
+    // Anyone arriving on the results screen gets the gallery too
+    const gameState = getGameState(roomCode);
+    if (gameState && gameState.phase === GamePhase.GAME_OVER) {
+      syncGallery(socket.id, roomCode);
+    }
+    
+    // A drawer reconnecting mid word-selection needs their options again
+    const currentDrawer = getDrawer(roomCode, room.players);
+    if (gameState && gameState.phase === GamePhase.WORD_SELECTION && currentDrawer && currentDrawer.id === player.id) {
+      socket.emit('word-options', { words: gameState.wordOptions });
+    }
+    
+    callback({ success: true, room: toRoomInfo(result.room), rejoined: result.rejoined, spectating: spectate, seatToken: result.seatToken });
+  });
+  
+  // Leave a room
+  socket.on('leave-room', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    
+    if (roomCode && playerId) {
+      socket.leave(roomCode);
       socketToPlayer.delete(socket.id);
       socketToRoom.delete(socket.id);
       
-      if (result.deleted) {
-        deleteGameState(roomCode);
-        console.log(`Room ${roomCode} deleted (empty)`);
-      } else if (result.room) {
-        broadcastRoomState(roomCode);
+      if (isSpectator(getRoom(roomCode), playerId)) {
+        removeSpectator(roomCode, playerId);
+      } else {
+        removePlayer(roomCode, playerId);
       }
       
       console.log(`Player ${playerId} left room ${roomCode}`);
@@ -321,6 +1239,309 @@ io.on('connection', (socket) => {
     if (callback) callback({ success: true });
   });
   
+  // Add a bot (host only, before the game starts)
+  socket.on('add-bot', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can add bots' });
+      return;
+    }
+    
+    if (room.status !== 'WAITING') {
+      callback({ success: false, error: 'Bots can only be added in the lobby' });
+      return;
+    }
+    
+    const result = addPlayerToRoom(roomCode, createBot(room.players));
+    if (!result.success) {
+      callback({ success: false, error: result.error });
+      return;
+    }
+    
+    broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
+  // Remove a bot (host only, before the game starts)
+  socket.on('remove-bot', ({ botId }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can remove bots' });
+      return;
+    }
+    
+    if (room.status !== 'WAITING') {
+      callback({ success: false, error: 'Bots can only be removed in the lobby' });
+      return;
+    }
+    
+    const bot = room.players.find(p => p.id === botId);
+    if (!isBot(bot)) {
+      callback({ success: false, error: 'Bot not found' });
+      return;
+    }
+    
+    removePlayer(roomCode, botId);
+    callback({ success: true });
+  });
+  
+  // Kick (and optionally ban) a player or spectator (host only)
+  socket.on('kick-player', ({ playerId: targetId, ban = false }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can kick players' });
+      return;
+    }
+    
+    if (targetId === playerId) {
+      callback({ success: false, error: "You can't kick yourself" });
+      return;
+    }
+    
+    if (!isPlayerInRoom(roomCode, targetId) && !isSpectatorInRoom(roomCode, targetId)) {
+      callback({ success: false, error: 'Player not found' });
+      return;
+    }
+    
+    kickFromRoom(roomCode, targetId, ban ? 'Banned by the host' : 'Kicked by the host', ban);
+    callback({ success: true });
+  });
+  
+  // Hand host rights to another player (host only)
+  socket.on('transfer-host', ({ playerId: newHostId }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can transfer host rights' });
+      return;
+    }
+    
+    const result = transferHost(roomCode, newHostId);
+    if (!result.success) {
+      callback({ success: false, error: result.error });
+      return;
+    }
+    
+    const newHost = room.players.find(p => p.id === newHostId);
+    addMessage(roomCode, {
+      playerId: 'system',
+      playerName: 'Host',
+      text: `${newHost.name} is now the host.`,
+      isSystem: true
+    });
+    
+    broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
+  // Start a vote to kick someone (any player, only while the host is away)
+  socket.on('start-vote-kick', ({ playerId: targetId }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.settings.voteKick !== 'ON') {
+      callback({ success: false, error: 'Vote-kick is turned off in this room' });
+      return;
+    }
+    
+    if (isHostPresent(room)) {
+      callback({ success: false, error: 'Ask the host to kick instead' });
+      return;
+    }
+    
+    if (voteKicks.has(roomCode)) {
+      callback({ success: false, error: 'A vote is already in progress' });
+      return;
+    }
+    
+    const target = room.players.find(p => p.id === targetId);
+    if (!target || targetId === playerId) {
+      callback({ success: false, error: 'Invalid vote target' });
+      return;
+    }
+    
+    if (!getVoteKickVoters(room, targetId).some(p => p.id === playerId)) {
+      callback({ success: false, error: 'You cannot start a vote' });
+      return;
+    }
+    
+    voteKicks.set(roomCode, {
+      targetId,
+      startedBy: playerId,
+      votes: new Set(),
+      expiresAt: Date.now() + VOTE_KICK_DURATION_MS,
+      timer: setTimeout(() => {
+        voteKicks.delete(roomCode);
+        addMessage(roomCode, {
+          playerId: 'system',
+          playerName: 'Host',
+          text: `The vote to kick ${target.name} failed.`,
+          isSystem: true
+        });
+        broadcastRoomState(roomCode);
+      }, VOTE_KICK_DURATION_MS)
+    });
+    
+    addMessage(roomCode, {
+      playerId: 'system',
+      playerName: 'Host',
+      text: `A vote to kick ${target.name} has started.`,
+      isSystem: true
+    });
+    
+    // Starting the vote counts as a yes
+    callback(castVoteKick(roomCode, playerId));
+  });
+  
+  // Vote yes on the open vote-kick
+  socket.on('vote-kick', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    
+    callback(castVoteKick(roomCode, playerId));
+  });
+  
+  // Update room settings (host only, before the game starts)
+  socket.on('update-settings', ({ settings }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can change settings' });
+      return;
+    }
+    
+    if (room.status !== 'WAITING') {
+      callback({ success: false, error: 'Settings can only be changed in the lobby' });
+      return;
+    }
+    
+    const result = updateRoomSettings(roomCode, settings);
+    if (!result.success) {
+      callback({ success: false, error: result.error });
+      return;
+    }
+    
+    // Keep the lobby game state in step so the round count shown is correct
+    updateGameState(roomCode, { settings: { ...room.settings }, totalRounds: room.settings.rounds });
+    
+    broadcastRoomState(roomCode);
+    callback({ success: true, settings: room.settings });
+  });
+  
+  // Move a player to another team (host only, before the game starts)
+  socket.on('set-team', ({ playerId: targetId, teamId }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can change teams' });
+      return;
+    }
+    
+    if (room.status !== 'WAITING') {
+      callback({ success: false, error: 'Teams can only be changed in the lobby' });
+      return;
+    }
+    
+    const teamCount = getTeamCount(room.settings);
+    if (!Number.isInteger(teamId) || teamId < 0 || teamId >= teamCount) {
+      callback({ success: false, error: 'Invalid team' });
+      return;
+    }
+    
+    const target = room.players.find(p => p.id === targetId);
+    if (!target) {
+      callback({ success: false, error: 'Player not found' });
+      return;
+    }
+    
+    target.teamId = teamId;
+    broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
+  // Shuffle everyone into even teams (host only, before the game starts)
+  socket.on('balance-teams', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can change teams' });
+      return;
+    }
+    
+    if (room.status !== 'WAITING') {
+      callback({ success: false, error: 'Teams can only be changed in the lobby' });
+      return;
+    }
+    
+    const teamCount = getTeamCount(room.settings);
+    if (teamCount === 0) {
+      callback({ success: false, error: 'Team mode is off' });
+      return;
+    }
+    
+    balanceTeams(room.players, teamCount);
+    broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
   // Get public rooms
   socket.on('get-rooms', (callback) => {
     const rooms = getPublicRooms();
@@ -345,25 +1566,59 @@ io.on('connection', (socket) => {
       return;
     }
     
+    // A second start would deal a new game over the one being played
+    if (room.status !== 'WAITING') {
+      callback({ success: false, error: 'The game has already started' });
+      return;
+    }
+    
     if (room.players.length < 2) {
       callback({ success: false, error: 'Need at least 2 players' });
       return;
     }
     
+    // Telephone runs its own steps instead of turns
+    if (room.settings.mode === 'TELEPHONE') {
+      if (room.players.length < MIN_TELEPHONE_PLAYERS) {
+        callback({ success: false, error: `Telephone needs at least ${MIN_TELEPHONE_PLAYERS} players` });
+        return;
+      }
+      
+      if (room.players.some(isBot)) {
+        callback({ success: false, error: 'Bots cannot play Telephone - remove them first' });
+        return;
+      }
+      
+      updateRoomStatus(roomCode, 'PLAYING');
+      startGame(roomCode, room.players, room.settings, room.customWords);
+      startTelephone(roomCode, room.players);
+      handleTelephoneStep(roomCode);
+      
+      console.log(`Telephone game started in room ${roomCode}`);
+      callback({ success: true });
+      return;
+    }
+    
+    const teamCount = getTeamCount(room.settings);
+    const teams = checkTeamsReady(room.players, teamCount);
+    if (!teams.ready) {
+      callback({ success: false, error: teams.error });
+      return;
+    }
+    
+    // Turns alternate between teams
+    room.players = orderByTeams(room.players, teamCount);
+    
     // Update room status
     updateRoomStatus(roomCode, 'PLAYING');
     
     // Start the game
-    startGame(roomCode, room.players);
+    startGame(roomCode, room.players, room.settings, room.customWords);
     
     console.log(`Game started in room ${roomCode}`);
     
-    broadcastRoomState(roomCode);
-    
-    // Start first round after 1 second
-    setTimeout(() => {
-      handleStartRound(roomCode, 1);
-    }, 1000);
+    // Round 1 opens straight away - its wait runs on the phase timer, which a pause holds
+    handleStartRound(roomCode, 1);
     
     callback({ success: true });
   });
@@ -372,40 +1627,52 @@ io.on('connection', (socket) => {
   socket.on('select-word', ({ word }, callback) => {
     const roomCode = socketToRoom.get(socket.id);
     const playerId = socketToPlayer.get(socket.id);
+    
+    callback(handleSelectWord(roomCode, playerId, word));
+  });
+  
+  // Swap the word options for a fresh set (drawer only, once per turn)
+  socket.on('reroll-words', async (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
     const room = getRoom(roomCode);
     const gameState = getGameState(roomCode);
     
-    if (!room || !gameState) {
-      callback({ success: false, error: 'Room not found' });
+    if (!room || !gameState || gameState.phase !== GamePhase.WORD_SELECTION) {
+      callback({ success: false, error: 'Not choosing a word' });
       return;
     }
     
-    // Check if it's this player's turn
-    const currentDrawer = room.players[gameState.currentPlayerIndex];
+    const currentDrawer = getDrawer(roomCode, room.players);
     if (!currentDrawer || currentDrawer.id !== playerId) {
       callback({ success: false, error: 'Not your turn' });
       return;
     }
     
-    selectWord(roomCode, word);
+    if (gameState.pausedAt) {
+      callback({ success: false, error: 'The game is paused' });
+      return;
+    }
     
-    addMessage(roomCode, {
-      playerId: 'system',
-      playerName: 'Host',
-      text: `${currentDrawer.name} selected a word!`,
-      isSystem: true
-    });
+    if (gameState.rerollsLeft <= 0) {
+      callback({ success: false, error: 'No rerolls left this turn' });
+      return;
+    }
     
-    // Start the timer
-    startTurnTimer(roomCode);
+    const updated = await rerollWordOptions(roomCode);
+    // The countdown may have run out while the words were being generated
+    if (!updated || updated.phase !== GamePhase.WORD_SELECTION) {
+      callback({ success: false, error: 'A word has already been picked' });
+      return;
+    }
     
+    socket.emit('word-options', { words: updated.wordOptions });
     broadcastRoomState(roomCode);
-    
     callback({ success: true });
   });
   
-  // Drawing update
-  socket.on('draw-update', ({ canvasData }) => {
+  // Drawing stroke event
+  socket.on('draw-event', (event) => {
     const roomCode = socketToRoom.get(socket.id);
     const playerId = socketToPlayer.get(socket.id);
     const room = getRoom(roomCode);
@@ -413,113 +1680,242 @@ io.on('connection', (socket) => {
     
     if (!room || !gameState) return;
     
+    // In Telephone everyone draws their own picture - nothing is relayed until the reveal
+    if (gameState.phase === GamePhase.TELEPHONE_DRAW) {
+      if (applyTelephoneDraw(roomCode, playerId, event)) scheduleSave();
+      return;
+    }
+    
     // Check if it's this player's turn
-    const currentDrawer = room.players[gameState.currentPlayerIndex];
+    const currentDrawer = getDrawer(roomCode, room.players);
     if (!currentDrawer || currentDrawer.id !== playerId) return;
     
-    updateCanvas(roomCode, canvasData);
+    // The canvas is frozen while the game is paused
+    if (gameState.pausedAt) return;
     
-    // Broadcast to all OTHER players in room (not the drawer)
-    socket.to(roomCode).emit('drawing-updated', { canvasData });
+    const applied = applyDrawing(roomCode, event);
+    if (!applied) return;
+    
+    // Relay to all OTHER players in room (not the drawer)
+    socket.to(roomCode).emit('draw-event', applied);
+    scheduleSave();
   });
   
   // Submit a guess
   socket.on('submit-guess', ({ text }, callback) => {
     const roomCode = socketToRoom.get(socket.id);
     const playerId = socketToPlayer.get(socket.id);
+    
+    if (isSpectator(getRoom(roomCode), playerId)) {
+      callback({ success: false, error: 'Spectators cannot guess' });
+      return;
+    }
+    
+    const check = checkMessage(playerId, text);
+    if (!check.allowed) {
+      callback({ success: false, error: check.error, retryAfter: check.retryAfter });
+      return;
+    }
+    
+    callback(handleGuess(roomCode, playerId, check.text, true));
+  });
+  
+  // Chat message (for non-guessing chat)
+  socket.on('chat-message', ({ text }, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    
+    if (!room) return;
+    
+    const spectator = room.spectators.find(s => s.id === playerId);
+    const player = spectator || room.players.find(p => p.id === playerId);
+    if (!player) return;
+    
+    const check = checkMessage(playerId, text);
+    if (!check.allowed) {
+      if (callback) callback({ success: false, error: check.error, retryAfter: check.retryAfter });
+      return;
+    }
+    
+    addMessage(roomCode, {
+      playerId,
+      playerName: player.name,
+      text: filterProfanity(check.text),
+      isSystem: false,
+      isCorrectGuess: false,
+      channel: getChatChannel(room, playerId)
+    });
+    
+    broadcastRoomState(roomCode);
+    if (callback) callback({ success: true });
+  });
+  
+  // Hand in this step's prompt, drawing or description (Telephone)
+  socket.on('telephone-submit', ({ text } = {}, callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
     const room = getRoom(roomCode);
     const gameState = getGameState(roomCode);
     
-    if (!room || !gameState) {
-      callback({ success: false });
+    if (!room || !gameState || !Object.values(TELEPHONE_PHASES).includes(gameState.phase)) {
+      callback({ success: false, error: 'No step in progress' });
       return;
     }
     
-    const player = room.players.find(p => p.id === playerId);
-    if (!player) {
-      callback({ success: false });
+    const result = submitTelephoneEntry(roomCode, playerId, typeof text === 'string' ? filterProfanity(text) : text);
+    if (!result.success) {
+      callback(result);
       return;
     }
     
-    // Check if it's the drawer (they can only chat, not guess)
-    const currentDrawer = room.players[gameState.currentPlayerIndex];
-    const isDrawer = currentDrawer && currentDrawer.id === playerId;
+    // Everyone still here is done - move on without waiting for the timer
+    const activeIds = room.players.filter(p => p.isConnected !== false).map(p => p.id);
+    if (isStepComplete(roomCode, activeIds)) {
+      schedulePhaseStep(roomCode, Date.now());
+    }
     
-    // If already guessed, treat as chat
-    if (player.hasGuessedCorrectly || isDrawer) {
-      addMessage(roomCode, {
-        playerId,
-        playerName: player.name,
-        text,
-        isSystem: false,
-        isCorrectGuess: false
-      });
-      
-      broadcastRoomState(roomCode);
-      callback({ success: true, isCorrect: false });
+    broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
+  // Show the next prompt or drawing of the reveal (host only, Telephone)
+  socket.on('telephone-reveal-next', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    const gameState = getGameState(roomCode);
+    
+    if (!room || !gameState || gameState.phase !== GamePhase.TELEPHONE_REVEAL) {
+      callback({ success: false, error: 'Nothing to reveal' });
       return;
     }
     
-    // Check if guess is correct
-    const isCorrect = checkGuess(roomCode, text);
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can reveal' });
+      return;
+    }
     
-    if (isCorrect && gameState.phase === GamePhase.DRAWING) {
-      const result = handleCorrectGuess(roomCode, playerId, room.players);
-      
-      if (result) {
-        addMessage(roomCode, {
-          playerId,
-          playerName: player.name,
-          text: `Guessed the word! (+${result.points})`,
-          isSystem: false,
-          isCorrectGuess: true
-        });
-        
-        broadcastRoomState(roomCode);
-        
-        // If all guessed, end turn early
-        if (result.allGuessed) {
-          setTimeout(() => handleTurnEnd(roomCode), 2000);
-        }
-        
-        callback({ success: true, isCorrect: true, points: result.points });
-        return;
-      }
+    advanceReveal(roomCode);
+    broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
+  // Pause the game (host only) - timers stop and nobody can guess or draw
+  socket.on('pause-game', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    const gameState = getGameState(roomCode);
+    
+    if (!room || !gameState) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can pause the game' });
+      return;
+    }
+    
+    if (gameState.pausedAt) {
+      callback({ success: false, error: 'The game is already paused' });
+      return;
     }
     
-    // Wrong guess - show as regular message
+    if (!PAUSABLE_PHASES.includes(gameState.phase)) {
+      callback({ success: false, error: "The game can't be paused right now" });
+      return;
+    }
+    
+    pauseGame(roomCode);
+    clearBotTimers(roomCode);
+    
     addMessage(roomCode, {
-      playerId,
-      playerName: player.name,
-      text,
-      isSystem: false,
-      isCorrectGuess: false
+      playerId: 'system',
+      playerName: 'Host',
+      text: 'Game paused by the host.',
+      isSystem: true
     });
     
     broadcastRoomState(roomCode);
-    callback({ success: true, isCorrect: false });
+    callback({ success: true });
   });
   
-  // Chat message (for non-guessing chat)
-  socket.on('chat-message', ({ text }) => {
+  // Resume a paused game (host only) - picks up with the time that was left
+  socket.on('resume-game', (callback) => {
     const roomCode = socketToRoom.get(socket.id);
     const playerId = socketToPlayer.get(socket.id);
     const room = getRoom(roomCode);
+    const gameState = getGameState(roomCode);
     
-    if (!room) return;
+    if (!room || !gameState) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
     
-    const player = room.players.find(p => p.id === playerId);
-    if (!player) return;
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can resume the game' });
+      return;
+    }
+    
+    if (!gameState.pausedAt) {
+      callback({ success: false, error: 'The game is not paused' });
+      return;
+    }
+    
+    unpauseGame(roomCode);
     
     addMessage(roomCode, {
-      playerId,
-      playerName: player.name,
-      text,
-      isSystem: false,
-      isCorrectGuess: false
+      playerId: 'system',
+      playerName: 'Host',
+      text: 'Game resumed!',
+      isSystem: true
     });
     
+    // Restarts the timers the same way as after a server restart
+    resumeGame(room);
+    
+    // Strokes the drawer sent as the pause began were dropped - line everyone's canvas back up
+    if (gameState.phase === GamePhase.DRAWING) {
+      syncDrawing(roomCode, roomCode);
+    }
+    
     broadcastRoomState(roomCode);
+    callback({ success: true });
+  });
+  
+  // Skip the current turn (host only) - the word is revealed and the drawer scores nothing
+  socket.on('skip-turn', (callback) => {
+    const roomCode = socketToRoom.get(socket.id);
+    const playerId = socketToPlayer.get(socket.id);
+    const room = getRoom(roomCode);
+    const gameState = getGameState(roomCode);
+    
+    if (!room || !gameState) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      callback({ success: false, error: 'Only host can skip a turn' });
+      return;
+    }
+    
+    if (gameState.phase !== GamePhase.WORD_SELECTION && gameState.phase !== GamePhase.DRAWING) {
+      callback({ success: false, error: 'There is no turn to skip' });
+      return;
+    }
+    
+    // The turn-end pause would only start counting after the resume - resume first
+    if (gameState.pausedAt) {
+      callback({ success: false, error: 'Resume the game before skipping a turn' });
+      return;
+    }
+    
+    forfeitDrawerScore(roomCode, room.players);
+    handleTurnEnd(roomCode, 'The host skipped this turn.');
+    callback({ success: true });
   });
   
   // Restart game (go back to lobby)
@@ -532,11 +1928,20 @@ io.on('connection', (socket) => {
       return;
     }
     
+    if (room.hostId !== socketToPlayer.get(socket.id)) {
+      callback({ success: false, error: 'Only host can restart the game' });
+      return;
+    }
+    
     // Reset room status
     updateRoomStatus(roomCode, 'WAITING');
+    clearBotTimers(roomCode);
+    botDrawings.delete(roomCode);
     
     // Reset game state
-    initializeGameState(roomCode);
+    initializeGameState(roomCode, room.settings);
+    deleteTelephoneGame(roomCode);
+    syncDrawing(roomCode, roomCode);
     
     // Reset player scores
     room.players.forEach(p => {
@@ -548,23 +1953,44 @@ io.on('connection', (socket) => {
     callback({ success: true });
   });
   
+  // --- Profiles ---
+  
+  // Create or update a profile. Sending a profile id needs its token; otherwise a new one is made.
+  socket.on('save-profile', ({ id, token, name, avatar } = {}, callback) => {
+    const result = saveProfile({ id, token, name, avatar });
+    
+    if (!result.success) {
+      callback({ success: false, error: result.error });
+      return;
+    }
+    
+    scheduleSave();
+    callback({ success: true, profile: toPublicProfile(result.profile), token: result.token });
+  });
+  
   // --- Disconnect ---
   
   socket.on('disconnect', () => {
     const roomCode = socketToRoom.get(socket.id);
     const playerId = socketToPlayer.get(socket.id);
     
+    
     if (roomCode && playerId) {
-      const result = removePlayerFromRoom(roomCode, playerId);
-      
       socketToPlayer.delete(socket.id);
       socketToRoom.delete(socket.id);
       
-      if (result.deleted) {
-        deleteGameState(roomCode);
-        console.log(`Room ${roomCode} deleted (empty)`);
-      } else if (result.room) {
+      // Spectators have no seat to keep - they simply rejoin as spectators
+      if (isSpectator(getRoom(roomCode), playerId)) {
+        if (!findPlayerSocket(roomCode, playerId)) {
+          removeSpectator(roomCode, playerId);
+        }
+      } else if (!findPlayerSocket(roomCode, playerId)) {
+        // Keep the seat (score, turn slot, host rights) for a grace period - but not the turn,
+        // nobody can guess a drawing that isn't being drawn
+        setPlayerConnected(roomCode, playerId, false);
+        endTurnIfDrawer(roomCode, playerId, 'disconnected');
         broadcastRoomState(roomCode);
+        scheduleDisconnectRemoval(roomCode, playerId);
       }
       
       console.log(`Player ${playerId} disconnected from room ${roomCode}`);
@@ -576,21 +2002,204 @@ io.on('connection', (socket) => {
 
 // ==================== HTTP Routes ====================
 
+// Helper: Private-room games are only shown to someone seated in that room, proven with
+// their seat token (sent as the X-Player-Id / X-Seat-Token headers)
+const canViewGameRecord = (record, req) => {
+  // Records saved before isPrivate was kept go by the room as it is now
+  const isPrivate = record.isPrivate ?? Boolean(getRoom(record.roomCode)?.isPrivate);
+  if (!isPrivate) return true;
+  return verifySeatToken(record.roomCode, req.get('X-Player-Id'), req.get('X-Seat-Token'));
+};
+
 // Health check
 app.get('/', (req, res) => {
   res.json({ status: 'ok', message: 'DrawIt Server is running' });
 });
 
+// Get a player's profile and lifetime stats
+app.get('/profiles/:id', (req, res) => {
+  const profile = getProfile(req.params.id);
+  if (!profile) {
+    res.status(404).json({ error: 'Profile not found' });
+    return;
+  }
+  res.json({ profile: toPublicProfile(profile) });
+});
+
+// Get the record of a finished game
+app.get('/games/:id', (req, res) => {
+  const game = getGameRecord(req.params.id);
+  if (!game || !canViewGameRecord(game, req)) {
+    res.status(404).json({ error: 'Game not found' });
+    return;
+  }
+  res.json({ game: toPublicRecord(game) });
+});
+
+// Get every finished game played in a room, newest first
+app.get('/rooms/:code/history', (req, res) => {
+  const games = getRoomHistory(req.params.code.toUpperCase()).filter(game => canViewGameRecord(game, req));
+  res.json({ games: games.map(toPublicRecord) });
+});
+
 // Get public rooms (HTTP fallback)
 app.get('/rooms', (req, res) => {
   const rooms = getPublicRooms();
   res.json({ rooms });
 });
 
+// ==================== Persistence ====================
+
+const storage = createStorageFromEnv();
+
+// Saves are batched - a busy room changes many times a second, and every save copies all rooms.
+// A crash loses at most this much; a normal shutdown saves everything (see below).
+const SAVE_DELAY_MS = 10000;
+let saveTimeout = null;
+
+// Helper: Write every room and game to storage now
+const saveState = async () => {
+  if (saveTimeout) {
+    clearTimeout(saveTimeout);
+    saveTimeout = null;
+  }
+  
+  try {
+    await storage.save({
+      savedAt: Date.now(),
+      rooms: exportRooms(),
+      gameStates: exportGameStates(),
+      telephone: exportTelephoneGames(),
+      profiles: exportProfiles(),
+      history: exportHistory()
+    });
+  } catch (error) {
+    console.error('Failed to save state:', error);
+  }
+};
+
+// Helper: Save shortly after a change
+const scheduleSave = () => {
+  if (saveTimeout) return;
+  saveTimeout = setTimeout(saveState, SAVE_DELAY_MS);
+};
+
+// Helper: Pick a restored game back up where it was
+const resumeGame = (room) => {
+  const roomCode = room.id;
+  const gameState = getGameState(roomCode);
+  if (!gameState) return;
+  
+  // A paused game stays paused until the host resumes it
+  if (gameState.pausedAt) return;
+  
+  const drawer = getDrawer(roomCode, room.players);
+  
+  switch (gameState.phase) {
+    case GamePhase.WORD_SELECTION: {
+      const timeLeft = Math.ceil(((gameState.turnEndsAt || Date.now()) - Date.now()) / 1000);
+      if (timeLeft <= 0) {
+        autoPickWord(roomCode);
+        break;
+      }
+      updateGameState(roomCode, { timeLeft });
+      startWordSelectionTimer(roomCode);
+      // Human drawers get their options again when they reconnect
+      if (isBot(drawer)) scheduleBotWordPick(roomCode, drawer);
+      break;
+    }
+    case GamePhase.DRAWING: {
+      const timeLeft = Math.ceil(((gameState.turnEndsAt || Date.now()) - Date.now()) / 1000);
+      if (timeLeft <= 0) {
+        handleTurnEnd(roomCode);
+        break;
+      }
+      updateGameState(roomCode, { timeLeft });
+      startTurnTimer(roomCode);
+      // Everyone had guessed - the turn still ends early
+      if (gameState.phaseEndsAt) schedulePhaseStep(roomCode, gameState.phaseEndsAt);
+      // Bots guess again, and a bot drawer carries on from where it stopped (after a
+      // restart there is nothing left to replay, so its picture stays as it was)
+      if (isBot(drawer)) playBotDrawing(roomCode, 500);
+      room.players
+        .filter(p => isBot(p) && p.id !== drawer?.id && !p.hasGuessedCorrectly)
+        .forEach(bot => scheduleBotGuesses(roomCode, bot, gameState.settings.drawTime));
+      break;
+    }
+    case GamePhase.TURN_START:
+      // Saved while word options were being generated - deal them again
+      handleNextTurn(roomCode, gameState.turnIndex);
+      break;
+    case GamePhase.TURN_END:
+    case GamePhase.ROUND_END:
+    case GamePhase.ROUND_START:
+    case GamePhase.TELEPHONE_PROMPT:
+    case GamePhase.TELEPHONE_DRAW:
+    case GamePhase.TELEPHONE_DESCRIBE:
+      schedulePhaseStep(roomCode, gameState.phaseEndsAt || Date.now());
+      break;
+  }
+};
+
+// Helper: Hold a restored game where it was. Nobody is connected straight after a restart, so
+// running its timers would play the game out before anyone is back.
+const holdRestoredGame = (room) => {
+  const gameState = getGameState(room.id);
+  if (!gameState || room.status !== 'PLAYING' || gameState.phase === GamePhase.GAME_OVER) return;
+  // Already paused (by the host, or an earlier restart) - that pause covers the downtime too
+  if (gameState.pausedAt) return;
+  
+  pauseGame(room.id);
+  updateGameState(room.id, { heldForRejoin: true });
+};
+
+// Helper: Carry a held game on now that one of its players has reconnected
+const releaseRestoredGame = (room) => {
+  const gameState = getGameState(room.id);
+  if (!gameState || !gameState.heldForRejoin) return;
+  
+  delayStep(room.id, Date.now() - gameState.pausedAt);
+  unpauseGame(room.id);
+  updateGameState(room.id, { heldForRejoin: false });
+  resumeGame(room);
+};
+
+// Helper: Load the last snapshot and restart its rooms. Players reattach through the
+// normal reconnect path (join-room with their stored session).
+const restoreState = async () => {
+  const snapshot = await storage.load();
+  if (!snapshot) return;
+  
+  restoreProfiles(snapshot.profiles || []);
+  restoreHistory(snapshot.history || []);
+  const rooms = restoreRooms(snapshot.rooms || []);
+  restoreGameStates(snapshot.gameStates || []);
+  restoreTelephoneGames(snapshot.telephone || []);
+  
+  rooms.forEach(room => {
+    room.players
+      .filter(p => !isBot(p))
+      .forEach(p => scheduleDisconnectRemoval(room.id, p.id));
+    holdRestoredGame(room);
+  });
+  
+  console.log(`Restored ${rooms.length} room(s) from ${storage.name} storage`);
+};
+
+// Save on shutdown (deploys send SIGTERM) so games carry on after the restart
+['SIGTERM', 'SIGINT'].forEach(signal => {
+  process.on(signal, async () => {
+    await saveState();
+    process.exit(0);
+  });
+});
+
 // ==================== Start Server ====================
 
 const PORT = process.env.PORT || 3001;
 
+await restoreState();
+
 httpServer.listen(PORT, () => {
   console.log(`\n🎮 DrawIt Server running on port ${PORT}`);
   console.log(`   Local: http://localhost:${PORT}`);
@@ -0,0 +1,78 @@
+// Guess matching for DrawIt - normalization and near-miss detection
+
+// Normalize text for comparison: strip accents and punctuation, collapse whitespace
+export const normalizeGuess = (text) => {
+  return String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Edit distance allowing insertions, deletions, substitutions and adjacent swaps
+export const editDistance = (a, b) => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+// How many edits still count as "close" - longer words allow more typos
+export const closeGuessThreshold = (wordLength) => {
+  if (wordLength <= 3) return 0;
+  if (wordLength <= 7) return 1;
+  if (wordLength <= 11) return 2;
+  return 3;
+};
+
+// Compare a guess against the target word
+export const matchGuess = (guess, target) => {
+  const normalizedGuess = normalizeGuess(guess);
+  const normalizedTarget = normalizeGuess(target);
+
+  if (!normalizedGuess || !normalizedTarget) {
+    return { isCorrect: false, isClose: false };
+  }
+
+  if (normalizedGuess === normalizedTarget) {
+    return { isCorrect: true, isClose: false };
+  }
+
+  const threshold = closeGuessThreshold(normalizedTarget.length);
+  // Cheap length check before running the full distance
+  if (threshold === 0 || Math.abs(normalizedGuess.length - normalizedTarget.length) > threshold) {
+    return { isCorrect: false, isClose: false };
+  }
+
+  return {
+    isCorrect: false,
+    isClose: editDistance(normalizedGuess, normalizedTarget) <= threshold
+  };
+};
+
+export default {
+  normalizeGuess,
+  editDistance,
+  closeGuessThreshold,
+  matchGuess
+};
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeGuess, editDistance, closeGuessThreshold, matchGuess } from './matching.js';
+
+const CORRECT = { isCorrect: true, isClose: false };
+const CLOSE = { isCorrect: false, isClose: true };
+const WRONG = { isCorrect: false, isClose: false };
+
+describe('normalizeGuess', () => {
+  it('ignores case, accents and punctuation', () => {
+    assert.equal(normalizeGuess('Crème Brûlée!'), 'creme brulee');
+    assert.equal(normalizeGuess("Jack-o'-lantern"), 'jackolantern');
+  });
+
+  it('collapses and trims whitespace', () => {
+    assert.equal(normalizeGuess('  ice \t  cream \n'), 'ice cream');
+  });
+
+  it('treats missing text as empty', () => {
+    assert.equal(normalizeGuess(undefined), '');
+    assert.equal(normalizeGuess(null), '');
+    assert.equal(normalizeGuess('?!'), '');
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    assert.equal(editDistance('house', 'house'), 0);
+    assert.equal(editDistance('house', 'houses'), 1);
+    assert.equal(editDistance('house', 'hose'), 1);
+    assert.equal(editDistance('house', 'mouse'), 1);
+    assert.equal(editDistance('kitten', 'sitting'), 3);
+    assert.equal(editDistance('', 'sun'), 3);
+  });
+
+  it('counts swapping two neighbouring letters as one edit', () => {
+    assert.equal(editDistance('house', 'huose'), 1);
+    assert.equal(editDistance('ab', 'ba'), 1);
+  });
+});
+
+describe('closeGuessThreshold', () => {
+  it('allows more typos in longer words', () => {
+    assert.equal(closeGuessThreshold(3), 0);
+    assert.equal(closeGuessThreshold(4), 1);
+    assert.equal(closeGuessThreshold(7), 1);
+    assert.equal(closeGuessThreshold(8), 2);
+    assert.equal(closeGuessThreshold(11), 2);
+    assert.equal(closeGuessThreshold(12), 3);
+  });
+});
+
+describe('matchGuess', () => {
+  it('accepts the word however it is typed', () => {
+    assert.deepEqual(matchGuess('house', 'House'), CORRECT);
+    assert.deepEqual(matchGuess('  ICE   cream! ', 'Ice Cream'), CORRECT);
+    assert.deepEqual(matchGuess('creme brulee', 'Crème Brûlée'), CORRECT);
+  });
+
+  it('flags guesses within the threshold as close', () => {
+    assert.deepEqual(matchGuess('huose', 'House'), CLOSE);
+    assert.deepEqual(matchGuess('elefant', 'Elephant'), CLOSE);
+    assert.deepEqual(matchGuess('helicoptr', 'Helicopter'), CLOSE);
+  });
+
+  it('rejects guesses past the threshold', () => {
+    assert.deepEqual(matchGuess('hut', 'House'), WRONG);
+    assert.deepEqual(matchGuess('elevator', 'Elephant'), WRONG);
+    assert.deepEqual(matchGuess('banana', 'Helicopter'), WRONG);
+  });
+
+  it('never calls a guess at a short word close', () => {
+    assert.deepEqual(matchGuess('cat', 'Car'), WRONG);
+    assert.deepEqual(matchGuess('sum', 'Sun'), WRONG);
+    assert.deepEqual(matchGuess('sun', 'Sun'), CORRECT);
+  });
+
+  it('rejects empty guesses', () => {
+    assert.deepEqual(matchGuess('', 'House'), WRONG);
+    assert.deepEqual(matchGuess('!!!', 'House'), WRONG);
+    assert.deepEqual(matchGuess('house', ''), WRONG);
+  });
+});
@@ -0,0 +1,150 @@
+// Player profiles for DrawIt multiplayer - a saved name/avatar and lifetime stats.
+// A profile is claimed with a random token kept by the browser; there are no accounts.
+
+import { randomBytes } from 'crypto';
+
+export const MAX_NAME_LENGTH = 12;
+
+// Matching frontend AVATAR_SHAPES
+const AVATAR_SHAPES = ['circle', 'square', 'rounded'];
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MAX_ACCESSORY_LENGTH = 8;
+
+// In-memory store (keyed by profile id), saved along with rooms (see storage.js)
+const profiles = new Map();
+
+const createStats = () => ({
+  gamesPlayed: 0,
+  wins: 0,
+  wordsGuessed: 0,
+  totalGuessTimeMs: 0, // summed over wordsGuessed, for the average
+  drawingsGuessed: 0 // own drawings that at least one player guessed
+});
+
+// Validate the name and avatar a player wants to save
+const validateProfileInput = (name, avatar) => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) return { valid: false, error: 'Name is required' };
+  if (trimmed.length > MAX_NAME_LENGTH) return { valid: false, error: `Name can be at most ${MAX_NAME_LENGTH} characters` };
+
+  if (!avatar || !COLOR_PATTERN.test(avatar.color) || !AVATAR_SHAPES.includes(avatar.shape) ||
+      typeof avatar.accessory !== 'string' || avatar.accessory.length > MAX_ACCESSORY_LENGTH) {
+    return { valid: false, error: 'Invalid avatar' };
+  }
+
+  return {
+    valid: true,
+    name: trimmed,
+    avatar: { color: avatar.color, shape: avatar.shape, accessory: avatar.accessory }
+  };
+};
+
+// The part of a profile anyone may see (never the token)
+export const toPublicProfile = (profile) => {
+  const { stats } = profile;
+  return {
+    id: profile.id,
+    name: profile.name,
+    avatar: profile.avatar,
+    createdAt: profile.createdAt,
+    stats: {
+      gamesPlayed: stats.gamesPlayed,
+      wins: stats.wins,
+      wordsGuessed: stats.wordsGuessed,
+      averageGuessTimeMs: stats.wordsGuessed > 0 ? Math.round(stats.totalGuessTimeMs / stats.wordsGuessed) : null,
+      drawingsGuessed: stats.drawingsGuessed
+    }
+  };
+};
+
+// Get a profile by id
+export const getProfile = (profileId) => {
+  return profiles.get(profileId) || null;
+};
+
+// Check that a token belongs to a profile
+export const verifyProfile = (profileId, token) => {
+  const profile = profiles.get(profileId);
+  return Boolean(profile) && typeof token === 'string' && profile.token === token;
+};
+
+// Create a profile, or update the name/avatar of one the caller holds the token for.
+// Returns the token so the browser can claim the profile again later.
+export const saveProfile = ({ id, token, name, avatar }) => {
+  const validation = validateProfileInput(name, avatar);
+  if (!validation.valid) return { success: false, error: validation.error };
+
+  if (id && verifyProfile(id, token)) {
+    const profile = profiles.get(id);
+    profile.name = validation.name;
+    profile.avatar = validation.avatar;
+    return { success: true, profile, token: profile.token };
+  }
+
+  // Unknown or wrong token - start a fresh profile rather than touching someone else's
+  const profile = {
+    id: `profile-${Date.now()}-${randomBytes(4).toString('hex')}`,
+    token: randomBytes(24).toString('hex'),
+    name: validation.name,
+    avatar: validation.avatar,
+    createdAt: Date.now(),
+    stats: createStats()
+  };
+
+  profiles.set(profile.id, profile);
+  return { success: true, profile, token: profile.token };
+};
+
+// --- Stats ---
+
+// A correct guess, timeMs after the word was picked
+export const recordGuess = (profileId, timeMs) => {
+  const profile = profiles.get(profileId);
+  if (!profile) return;
+
+  profile.stats.wordsGuessed += 1;
+  profile.stats.totalGuessTimeMs += Math.max(0, timeMs);
+};
+
+// A drawing of theirs that somebody guessed
+export const recordDrawingGuessed = (profileId) => {
+  const profile = profiles.get(profileId);
+  if (!profile) return;
+
+  profile.stats.drawingsGuessed += 1;
+};
+
+// A finished game
+export const recordGameResult = (profileId, won) => {
+  const profile = profiles.get(profileId);
+  if (!profile) return;
+
+  profile.stats.gamesPlayed += 1;
+  if (won) profile.stats.wins += 1;
+};
+
+// --- Persistence ---
+
+export const exportProfiles = () => {
+  return [...profiles.values()].map(profile => structuredClone(profile));
+};
+
+export const restoreProfiles = (savedProfiles) => {
+  profiles.clear();
+  savedProfiles.forEach(profile => {
+    profiles.set(profile.id, { ...profile, stats: { ...createStats(), ...profile.stats } });
+  });
+};
+
+export default {
+  MAX_NAME_LENGTH,
+  toPublicProfile,
+  getProfile,
+  verifyProfile,
+  saveProfile,
+  recordGuess,
+  recordDrawingGuessed,
+  recordGameResult,
+  exportProfiles,
+  restoreProfiles
+};
@@ -1,15 +1,22 @@
 // Room management for DrawIt multiplayer
 
+import { randomBytes } from 'crypto';
+import { DEFAULT_SETTINGS, validateSettings } from './settings.js';
+import { getTeamCount, assignTeam, normalizeTeams } from './teams.js';
+
 // In-memory store for rooms
 const rooms = new Map();
 
+// Spectators don't take a seat, but there is still a cap per room
+export const MAX_SPECTATORS = 20;
+
 // Generate a random room code
 export const generateRoomCode = () => {
   return Math.random().toString(36).substr(2, 6).toUpperCase();
 };
 
 // Create a new room
-export const createRoom = (roomName, isPrivate = false, password = null, hostId = null) => {
+export const createRoom = (roomName, isPrivate = false, password = null, hostId = null, settings = DEFAULT_SETTINGS, customWords = null) => {
   const roomCode = generateRoomCode();
   
   const room = {
@@ -19,7 +26,15 @@ export const createRoom = (roomName, isPrivate = false, password = null, hostId
     password,
     hostId,
     players: [],
-    maxPlayers: 8,
+    spectators: [], // { id, name, avatar, isConnected } - watch only, never take a turn
+    seatTokens: {}, // player/spectator id -> secret handed to them on joining, needed to rejoin - never sent to others
+    // Bans go by player id, plus the claimed profile (user-018) of whoever was banned - someone
+    // without a profile can still come back under a fresh player id
+    bannedIds: [],
+    bannedProfileIds: [],
+    settings: { ...settings },
+    customWords, // { mode: 'MIX' | 'CUSTOM_ONLY', words: [] } or null - never sent to clients
+    maxPlayers: settings.maxPlayers,
     status: 'WAITING', // WAITING, PLAYING
     createdAt: Date.now()
   };
@@ -43,6 +58,7 @@ export const getPublicRooms = () => {
         name: room.name,
         isPrivate: room.isPrivate,
         playerCount: room.players.length,
+        spectatorCount: room.spectators.length,
         maxPlayers: room.maxPlayers,
         status: room.status
       });
@@ -51,50 +67,197 @@ export const getPublicRooms = () => {
   return publicRooms;
 };
 
-// Add player to a room
-export const addPlayerToRoom = (roomCode, player) => {
+// Check if a player already has a seat in a room
+export const isPlayerInRoom = (roomCode, playerId) => {
+  const room = rooms.get(roomCode);
+  if (!room) return false;
+  return room.players.some(p => p.id === playerId);
+};
+
+// Hand out the secret that proves a seat is yours when rejoining (player ids are public)
+const issueSeatToken = (room, id) => {
+  room.seatTokens[id] = randomBytes(24).toString('hex');
+  return room.seatTokens[id];
+};
+
+// Check a rejoin token against the one issued for a seat
+export const verifySeatToken = (roomCode, id, token) => {
+  const room = rooms.get(roomCode);
+  if (!room || typeof token !== 'string') return false;
+  return room.seatTokens[id] === token;
+};
+
+// Check if a player (or the profile they've claimed) is banned from a room
+export const isBanned = (roomCode, playerId, profileId = null) => {
+  const room = rooms.get(roomCode);
+  if (!room) return false;
+  return room.bannedIds.includes(playerId) || (profileId !== null && room.bannedProfileIds.includes(profileId));
+};
+
+// Ban a player (and their profile, if they have one) from rejoining a room
+export const banFromRoom = (roomCode, playerId, profileId = null) => {
+  const room = rooms.get(roomCode);
+  if (!room) return null;
+  
+  if (!room.bannedIds.includes(playerId)) room.bannedIds.push(playerId);
+  if (profileId && !room.bannedProfileIds.includes(profileId)) room.bannedProfileIds.push(profileId);
+  return room;
+};
+
+// Add player to a room. A player reconnecting to their seat must bring its seat token.
+export const addPlayerToRoom = (roomCode, player, seatToken = null) => {
   const room = rooms.get(roomCode);
   if (!room) return { success: false, error: 'Room not found' };
-  if (room.players.length >= room.maxPlayers) return { success: false, error: 'Room is full' };
-  if (room.status === 'PLAYING') return { success: false, error: 'Game already in progress' };
+  if (room.bannedIds.includes(player.id)) return { success: false, error: 'You are banned from this room' };
   
-  // Check if player already in room
+  // Check if player already in room (reconnecting) - they keep their seat
   const existingPlayer = room.players.find(p => p.id === player.id);
   if (existingPlayer) {
-    return { success: true, room }; // Already in room
+    if (!verifySeatToken(roomCode, player.id, seatToken)) return { success: false, error: 'That seat belongs to someone else' };
+    existingPlayer.isConnected = true;
+    return { success: true, room, rejoined: true, seatToken };
   }
   
-  room.players.push(player);
+  if (room.players.length >= room.maxPlayers) return { success: false, error: 'Room is full' };
+  
+  // Late joiners go to the end of the turn order
+  const joinedMidGame = room.status === 'PLAYING';
+  
+  const newPlayer = {
+    ...player,
+    score: joinedMidGame ? getLateJoinScore(room) : 0,
+    hasGuessedCorrectly: false,
+    isConnected: true
+  };
+  assignTeam(room.players, newPlayer, getTeamCount(room.settings));
+  room.players.push(newPlayer);
   
   // First player becomes host
   if (room.players.length === 1) {
     room.hostId = player.id;
   }
   
+  return { success: true, room, rejoined: false, joinedMidGame, seatToken: issueSeatToken(room, player.id) };
+};
+
+// Starting score for someone joining a game in progress
+const getLateJoinScore = (room) => {
+  if (room.settings.lateJoinScore !== 'LOWEST' || room.players.length === 0) return 0;
+  return Math.min(...room.players.map(p => p.score));
+};
+
+// Check if someone is watching a room
+export const isSpectatorInRoom = (roomCode, spectatorId) => {
+  const room = rooms.get(roomCode);
+  if (!room) return false;
+  return room.spectators.some(s => s.id === spectatorId);
+};
+
+// Add a spectator to a room (allowed at any time, even mid-game)
+export const addSpectatorToRoom = (roomCode, spectator, seatToken = null) => {
+  const room = rooms.get(roomCode);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (room.bannedIds.includes(spectator.id)) return { success: false, error: 'You are banned from this room' };
+  
+  if (room.players.some(p => p.id === spectator.id)) {
+    return { success: false, error: 'You are already playing in this room' };
+  }
+  
+  const existing = room.spectators.find(s => s.id === spectator.id);
+  if (existing) {
+    if (!verifySeatToken(roomCode, spectator.id, seatToken)) return { success: false, error: 'That spectator seat belongs to someone else' };
+    existing.isConnected = true;
+    return { success: true, room, rejoined: true, seatToken };
+  }
+  
+  if (room.spectators.length >= MAX_SPECTATORS) return { success: false, error: 'Too many spectators' };
+  
+  room.spectators.push({
+    id: spectator.id,
+    name: spectator.name,
+    avatar: spectator.avatar,
+    isConnected: true
+  });
+  
+  return { success: true, room, rejoined: false, seatToken: issueSeatToken(room, spectator.id) };
+};
+
+// Remove a spectator from a room
+export const removeSpectatorFromRoom = (roomCode, spectatorId) => {
+  const room = rooms.get(roomCode);
+  if (!room) return { success: false, error: 'Room not found' };
+  
+  room.spectators = room.spectators.filter(s => s.id !== spectatorId);
+  delete room.seatTokens[spectatorId];
   return { success: true, room };
 };
 
+// Mark a player as connected/disconnected without removing their seat
+export const setPlayerConnected = (roomCode, playerId, isConnected) => {
+  const room = rooms.get(roomCode);
+  if (!room) return null;
+  
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) return null;
+  
+  player.isConnected = isConnected;
+  return player;
+};
+
 // Remove player from a room
 export const removePlayerFromRoom = (roomCode, playerId) => {
   const room = rooms.get(roomCode);
   if (!room) return { success: false, error: 'Room not found' };
   
   room.players = room.players.filter(p => p.id !== playerId);
+  delete room.seatTokens[playerId];
   
-  // If room is empty, delete it
-  if (room.players.length === 0) {
+  // If no humans are left (empty or bots only), delete it
+  const humans = room.players.filter(p => p.type !== 'BOT');
+  if (humans.length === 0) {
     rooms.delete(roomCode);
     return { success: true, room: null, deleted: true };
   }
   
-  // If host left, assign new host
-  if (room.hostId === playerId && room.players.length > 0) {
-    room.hostId = room.players[0].id;
+  // If host left, assign new host (bots can't host)
+  if (room.hostId === playerId) {
+    room.hostId = humans[0].id;
   }
   
   return { success: true, room, deleted: false };
 };
 
+// Hand host rights to another (human) player
+export const transferHost = (roomCode, newHostId) => {
+  const room = rooms.get(roomCode);
+  if (!room) return { success: false, error: 'Room not found' };
+  
+  const newHost = room.players.find(p => p.id === newHostId);
+  if (!newHost) return { success: false, error: 'Player not found' };
+  if (newHost.type === 'BOT') return { success: false, error: 'Bots cannot be host' };
+  
+  room.hostId = newHostId;
+  return { success: true, room };
+};
+
+// Update room settings (validated; partial updates are merged)
+export const updateRoomSettings = (roomCode, updates) => {
+  const room = rooms.get(roomCode);
+  if (!room) return { success: false, error: 'Room not found' };
+  
+  const { valid, settings, error } = validateSettings(updates, room.settings);
+  if (!valid) return { success: false, error };
+  
+  if (settings.maxPlayers < room.players.length) {
+    return { success: false, error: `There are already ${room.players.length} players in the room` };
+  }
+  
+  room.settings = settings;
+  room.maxPlayers = settings.maxPlayers;
+  normalizeTeams(room.players, getTeamCount(settings));
+  return { success: true, room };
+};
+
 // Update room status
 export const updateRoomStatus = (roomCode, status) => {
   const room = rooms.get(roomCode);
@@ -116,6 +279,27 @@ export const deleteRoom = (roomCode) => {
   return rooms.delete(roomCode);
 };
 
+// Copy every room for saving (see storage.js)
+export const exportRooms = () => {
+  return [...rooms.values()].map(room => structuredClone(room));
+};
+
+// Replace all rooms with saved ones. Nobody is connected after a restart: players keep
+// their seats until they reconnect, spectators just join again.
+export const restoreRooms = (savedRooms) => {
+  rooms.clear();
+  savedRooms.forEach(room => {
+    rooms.set(room.id, {
+      ...room,
+      seatTokens: room.seatTokens || {},
+      bannedProfileIds: room.bannedProfileIds || [],
+      players: room.players.map(p => ({ ...p, isConnected: p.type === 'BOT' })),
+      spectators: []
+    });
+  });
+  return [...rooms.values()];
+};
+
 // Get player's current room
 export const getPlayerRoom = (playerId) => {
   for (const [code, room] of rooms) {
@@ -130,12 +314,25 @@ export default {
   createRoom,
   getRoom,
   getPublicRooms,
+  isPlayerInRoom,
   addPlayerToRoom,
+  isSpectatorInRoom,
+  addSpectatorToRoom,
+  removeSpectatorFromRoom,
+  verifySeatToken,
+  isBanned,
+  banFromRoom,
+  setPlayerConnected,
   removePlayerFromRoom,
+  transferHost,
+  updateRoomSettings,
   updateRoomStatus,
   verifyRoomPassword,
   deleteRoom,
   getPlayerRoom,
-  generateRoomCode
+  exportRooms,
+  restoreRooms,
+  generateRoomCode,
+  MAX_SPECTATORS
 };
 
@@ -0,0 +1,98 @@
+// Scoring strategies for DrawIt multiplayer - how many points a correct guess is worth
+//
+// A strategy is { scoreGuess(turn), scoreDrawer(turn) }, both called on every correct guess with
+//   { guessRank, guesserName, timeLeft, drawTime, allGuessed }
+// guessRank counts the players who guessed earlier this turn. Each returns
+//   { points, breakdown: [{ label, points }] } - the parts add up to points.
+
+export const POINTS_DRAWER_ALL_GUESSED = 300;
+export const POINTS_GUESS_BASE = 500;
+export const POINTS_GUESS_DECAY = 100;
+export const POINTS_GUESS_MIN = 200;
+export const POINTS_TIME_BASE = 100;
+export const POINTS_TIME_BONUS = 400; // all of it for a guess the moment the word is picked
+export const POINTS_DRAWER_PER_GUESS = 100;
+
+const NO_POINTS = { points: 0, breakdown: [] };
+
+// Add up breakdown parts
+const total = (breakdown) => ({
+  points: breakdown.reduce((sum, part) => sum + part.points, 0),
+  breakdown
+});
+
+// 500 for the first guesser, 100 less for each one after, never below 200
+const scoreByRank = ({ guessRank }) => {
+  const breakdown = [{ label: 'base', points: POINTS_GUESS_BASE }];
+  if (guessRank > 0) {
+    breakdown.push({
+      label: `for ${guessRank} earlier ${guessRank === 1 ? 'guesser' : 'guessers'}`,
+      points: -guessRank * POINTS_GUESS_DECAY
+    });
+  }
+
+  const raw = POINTS_GUESS_BASE - guessRank * POINTS_GUESS_DECAY;
+  if (raw < POINTS_GUESS_MIN) {
+    breakdown.push({ label: 'minimum', points: POINTS_GUESS_MIN - raw });
+  }
+  return total(breakdown);
+};
+
+// Drawer bonus once everyone has guessed
+const scoreAllGuessed = ({ allGuessed }) => {
+  if (!allGuessed) return NO_POINTS;
+  return total([{ label: 'everyone guessed', points: POINTS_DRAWER_ALL_GUESSED }]);
+};
+
+export const SCORING_STRATEGIES = {
+  // Earlier guessers score more; the drawer scores when everyone gets it
+  RANK: {
+    scoreGuess: scoreByRank,
+    scoreDrawer: scoreAllGuessed
+  },
+  // Guessers score by how much drawing time was left
+  TIME: {
+    scoreGuess: ({ timeLeft, drawTime }) => total([
+      { label: 'base', points: POINTS_TIME_BASE },
+      { label: `for ${timeLeft}s left`, points: Math.round(POINTS_TIME_BONUS * Math.min(1, timeLeft / drawTime)) }
+    ]),
+    scoreDrawer: scoreAllGuessed
+  },
+  // Scored by rank, and the drawer earns something for every correct guess
+  DRAWER_SHARE: {
+    scoreGuess: scoreByRank,
+    scoreDrawer: ({ guesserName }) => total([{ label: `guessed by ${guesserName}`, points: POINTS_DRAWER_PER_GUESS }])
+  }
+};
+
+export const DEFAULT_SCORING = 'RANK';
+
+// Look up a strategy by its settings name (rooms saved before scoring existed get the default)
+export const getScoringStrategy = (name) => {
+  return SCORING_STRATEGIES[name] || SCORING_STRATEGIES[DEFAULT_SCORING];
+};
+
+// "+400 = 500 base - 100 for 1 earlier guesser" style text for chat
+export const formatBreakdown = ({ points, breakdown }) => {
+  if (breakdown.length === 0) return `+${points}`;
+  if (breakdown.length === 1) return `+${points} ${breakdown[0].label}`;
+  const parts = breakdown.map((part, i) => {
+    if (i === 0) return `${part.points} ${part.label}`;
+    return `${part.points < 0 ? '-' : '+'} ${Math.abs(part.points)} ${part.label}`;
+  });
+  return `+${points} = ${parts.join(' ')}`;
+};
+
+export default {
+  POINTS_DRAWER_ALL_GUESSED,
+  POINTS_GUESS_BASE,
+  POINTS_GUESS_DECAY,
+  POINTS_GUESS_MIN,
+  POINTS_TIME_BASE,
+  POINTS_TIME_BONUS,
+  POINTS_DRAWER_PER_GUESS,
+  SCORING_STRATEGIES,
+  DEFAULT_SCORING,
+  getScoringStrategy,
+  formatBreakdown
+};
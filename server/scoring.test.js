@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getScoringStrategy, formatBreakdown, SCORING_STRATEGIES } from './scoring.js';
+
+const turn = (overrides = {}) => ({
+  guessRank: 0,
+  guesserName: 'Bob',
+  timeLeft: 40,
+  drawTime: 80,
+  allGuessed: false,
+  ...overrides
+});
+
+// Every strategy's breakdown has to add up to the points it awards
+const sumOf = ({ breakdown }) => breakdown.reduce((sum, part) => sum + part.points, 0);
+
+describe('RANK scoring', () => {
+  const { scoreGuess, scoreDrawer } = SCORING_STRATEGIES.RANK;
+
+  it('gives 100 fewer points for each earlier guesser', () => {
+    assert.equal(scoreGuess(turn({ guessRank: 0 })).points, 500);
+    assert.equal(scoreGuess(turn({ guessRank: 1 })).points, 400);
+    assert.equal(scoreGuess(turn({ guessRank: 2 })).points, 300);
+  });
+
+  it('never goes below the minimum', () => {
+    const score = scoreGuess(turn({ guessRank: 6 }));
+
+    assert.equal(score.points, 200);
+    assert.equal(sumOf(score), 200);
+  });
+
+  it('only pays the drawer once everyone has guessed', () => {
+    assert.equal(scoreDrawer(turn()).points, 0);
+    assert.equal(scoreDrawer(turn({ allGuessed: true })).points, 300);
+  });
+});
+
+describe('TIME scoring', () => {
+  const { scoreGuess } = SCORING_STRATEGIES.TIME;
+
+  it('scales the bonus with the drawing time left', () => {
+    assert.equal(scoreGuess(turn({ timeLeft: 80 })).points, 500);
+    assert.equal(scoreGuess(turn({ timeLeft: 40 })).points, 300);
+    assert.equal(scoreGuess(turn({ timeLeft: 0 })).points, 100);
+  });
+
+  it('caps the bonus when more time is left than the turn had', () => {
+    assert.equal(scoreGuess(turn({ timeLeft: 90 })).points, 500);
+  });
+});
+
+describe('DRAWER_SHARE scoring', () => {
+  it('pays the drawer for every correct guess', () => {
+    const score = SCORING_STRATEGIES.DRAWER_SHARE.scoreDrawer(turn({ guesserName: 'Ann' }));
+
+    assert.deepEqual(score, { points: 100, breakdown: [{ label: 'guessed by Ann', points: 100 }] });
+  });
+});
+
+describe('scoring breakdowns', () => {
+  it('add up to the points for every strategy', () => {
+    for (const strategy of Object.values(SCORING_STRATEGIES)) {
+      for (const guessRank of [0, 1, 4, 9]) {
+        const guess = strategy.scoreGuess(turn({ guessRank, timeLeft: 17 }));
+        const drawer = strategy.scoreDrawer(turn({ guessRank, allGuessed: true }));
+        assert.equal(sumOf(guess), guess.points);
+        assert.equal(sumOf(drawer), drawer.points);
+      }
+    }
+  });
+});
+
+describe('getScoringStrategy', () => {
+  it('falls back to RANK for unknown names', () => {
+    assert.equal(getScoringStrategy(undefined), SCORING_STRATEGIES.RANK);
+    assert.equal(getScoringStrategy('TIME'), SCORING_STRATEGIES.TIME);
+  });
+});
+
+describe('formatBreakdown', () => {
+  it('writes out each part of the score', () => {
+    const score = SCORING_STRATEGIES.RANK.scoreGuess(turn({ guessRank: 1 }));
+
+    assert.equal(formatBreakdown(score), '+400 = 500 base - 100 for 1 earlier guesser');
+  });
+
+  it('keeps single-part and empty scores short', () => {
+    assert.equal(formatBreakdown({ points: 300, breakdown: [{ label: 'everyone guessed', points: 300 }] }), '+300 everyone guessed');
+    assert.equal(formatBreakdown({ points: 0, breakdown: [] }), '+0');
+  });
+});
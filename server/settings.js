@@ -0,0 +1,66 @@
+// Room settings for DrawIt multiplayer
+
+// Allowed range and default for each host-configurable setting
+export const SETTINGS_LIMITS = {
+  rounds: { min: 1, max: 10, default: 3 },
+  drawTime: { min: 30, max: 240, default: 80 },
+  maxPlayers: { min: 2, max: 16, default: 8 },
+  wordChoices: { min: 1, max: 5, default: 3 },
+  hintCount: { min: 0, max: 5, default: 2 }
+};
+
+// Settings that pick one of a fixed set of values
+export const SETTINGS_CHOICES = {
+  // Starting score for players who join a game in progress
+  lateJoinScore: { options: ['ZERO', 'LOWEST'], default: 'ZERO' },
+  // Whether players can vote to kick someone while the host is away
+  voteKick: { options: ['ON', 'OFF'], default: 'ON' },
+  // How correct guesses are scored (see scoring.js)
+  scoring: { options: ['RANK', 'TIME', 'DRAWER_SHARE'], default: 'RANK' },
+  // Number of teams sharing a score (see teams.js)
+  teams: { options: ['OFF', '2', '3', '4'], default: 'OFF' },
+  // Classic turns, or Telephone where drawings and descriptions alternate (see telephone.js)
+  mode: { options: ['CLASSIC', 'TELEPHONE'], default: 'CLASSIC' }
+};
+
+export const DEFAULT_SETTINGS = Object.fromEntries(
+  [...Object.entries(SETTINGS_LIMITS), ...Object.entries(SETTINGS_CHOICES)]
+    .map(([key, limit]) => [key, limit.default])
+);
+
+// Validate a (possibly partial) settings update against the current settings.
+// Unknown keys are ignored; returns the merged settings or an error.
+export const validateSettings = (input, current = DEFAULT_SETTINGS) => {
+  if (input == null) return { valid: true, settings: { ...current } };
+  if (typeof input !== 'object') return { valid: false, error: 'Invalid settings' };
+
+  const settings = { ...current };
+
+  for (const [key, limit] of Object.entries(SETTINGS_LIMITS)) {
+    if (input[key] === undefined) continue;
+
+    const value = Number(input[key]);
+    if (!Number.isInteger(value) || value < limit.min || value > limit.max) {
+      return { valid: false, error: `${key} must be a whole number between ${limit.min} and ${limit.max}` };
+    }
+    settings[key] = value;
+  }
+
+  for (const [key, choice] of Object.entries(SETTINGS_CHOICES)) {
+    if (input[key] === undefined) continue;
+
+    if (!choice.options.includes(input[key])) {
+      return { valid: false, error: `${key} must be one of ${choice.options.join(', ')}` };
+    }
+    settings[key] = input[key];
+  }
+
+  return { valid: true, settings };
+};
+
+export default {
+  SETTINGS_LIMITS,
+  SETTINGS_CHOICES,
+  DEFAULT_SETTINGS,
+  validateSettings
+};
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateSettings, DEFAULT_SETTINGS } from './settings.js';
+
+describe('validateSettings', () => {
+  it('returns the current settings when nothing is sent', () => {
+    assert.deepEqual(validateSettings(undefined), { valid: true, settings: DEFAULT_SETTINGS });
+  });
+
+  it('merges a partial update into the current settings', () => {
+    const current = { ...DEFAULT_SETTINGS, rounds: 5 };
+    const result = validateSettings({ drawTime: 120 }, current);
+
+    assert.equal(result.valid, true);
+    assert.equal(result.settings.rounds, 5);
+    assert.equal(result.settings.drawTime, 120);
+  });
+
+  it('accepts numbers sent as strings', () => {
+    assert.equal(validateSettings({ rounds: '4' }).settings.rounds, 4);
+  });
+
+  it('rejects numbers outside their range or with a fraction', () => {
+    assert.equal(validateSettings({ rounds: 0 }).valid, false);
+    assert.equal(validateSettings({ drawTime: 241 }).valid, false);
+    assert.equal(validateSettings({ maxPlayers: 2.5 }).valid, false);
+    assert.equal(validateSettings({ hintCount: 'lots' }).valid, false);
+  });
+
+  it('names the range in the error', () => {
+    assert.equal(validateSettings({ rounds: 11 }).error, 'rounds must be a whole number between 1 and 10');
+  });
+
+  it('rejects choices that are not one of the options', () => {
+    assert.equal(validateSettings({ scoring: 'TIME' }).valid, true);
+    assert.equal(validateSettings({ scoring: 'time' }).valid, false);
+    assert.equal(validateSettings({ teams: 2 }).valid, false);
+  });
+
+  it('ignores unknown keys', () => {
+    const result = validateSettings({ hostId: 'me', rounds: 2 });
+
+    assert.equal(result.valid, true);
+    assert.equal('hostId' in result.settings, false);
+  });
+
+  it('rejects anything that is not an object', () => {
+    assert.equal(validateSettings('rounds=3').valid, false);
+  });
+
+  it('leaves the current settings untouched', () => {
+    const current = { ...DEFAULT_SETTINGS };
+    validateSettings({ rounds: 7 }, current);
+
+    assert.equal(current.rounds, DEFAULT_SETTINGS.rounds);
+  });
+});
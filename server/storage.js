@@ -0,0 +1,63 @@
+// Persistence for DrawIt multiplayer - lets rooms and games survive a server restart
+//
+// A storage backend is { name, load(), save(snapshot) }:
+//   load() resolves to the last saved snapshot, or null if there isn't one
+//   save(snapshot) resolves once the snapshot is stored
+// A snapshot is { savedAt, rooms: [...], gameStates: [...], telephone: [...], profiles: [...], history: [...] }
+// (see the export functions in rooms.js, gameState.js, telephone.js, profiles.js and history.js)
+
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import path from 'path';
+
+// Keeps the snapshot in memory only - the default, state is gone when the process exits
+export const createMemoryStorage = () => {
+  let snapshot = null;
+
+  return {
+    name: 'memory',
+    load: async () => snapshot,
+    save: async (next) => {
+      snapshot = next;
+    }
+  };
+};
+
+// Keeps the snapshot in a JSON file. Writes go to a temp file first so a crash mid-write
+// never leaves a half-written snapshot behind.
+export const createFileStorage = (filePath) => {
+  const tempPath = `${filePath}.tmp`;
+
+  return {
+    name: 'file',
+    load: async () => {
+      try {
+        return JSON.parse(await readFile(filePath, 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        console.error(`Could not read saved state from ${filePath}:`, error.message);
+        return null;
+      }
+    },
+    save: async (snapshot) => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(snapshot));
+      await rename(tempPath, filePath);
+    }
+  };
+};
+
+// Pick a backend from the environment:
+//   DRAWIT_STORAGE=memory (default) or file
+//   DRAWIT_STORAGE_FILE=path of the snapshot (default ./data/drawit-state.json)
+export const createStorageFromEnv = (env = process.env) => {
+  if (env.DRAWIT_STORAGE === 'file') {
+    return createFileStorage(path.resolve(env.DRAWIT_STORAGE_FILE || './data/drawit-state.json'));
+  }
+  return createMemoryStorage();
+};
+
+export default {
+  createMemoryStorage,
+  createFileStorage,
+  createStorageFromEnv
+};
@@ -0,0 +1,90 @@
+// Team mode for DrawIt multiplayer - players are split into teams that share a score.
+// Teams are numbered from 0; a player's team is player.teamId (null when team mode is off).
+
+// Number of teams for the room's teams setting (0 = team mode off)
+export const getTeamCount = (settings) => {
+  const count = Number(settings?.teams);
+  return Number.isInteger(count) ? count : 0;
+};
+
+// Players on each team, in room order
+const groupByTeam = (players, teamCount) => {
+  const teams = Array.from({ length: teamCount }, () => []);
+  players.forEach(p => {
+    if (p.teamId !== null && p.teamId >= 0 && p.teamId < teamCount) teams[p.teamId].push(p);
+  });
+  return teams;
+};
+
+// Put a player on the team with the fewest players (ties go to the lower number)
+export const assignTeam = (players, player, teamCount) => {
+  if (teamCount === 0) {
+    player.teamId = null;
+    return;
+  }
+
+  const sizes = groupByTeam(players.filter(p => p.id !== player.id), teamCount).map(team => team.length);
+  player.teamId = sizes.indexOf(Math.min(...sizes));
+};
+
+// Deal players out to the teams evenly in random order
+export const balanceTeams = (players, teamCount) => {
+  const shuffled = [...players].sort(() => Math.random() - 0.5);
+  shuffled.forEach((p, i) => {
+    p.teamId = teamCount === 0 ? null : i % teamCount;
+  });
+};
+
+// After the team count changes: clear teams, or move players off teams that no longer exist
+export const normalizeTeams = (players, teamCount) => {
+  players.forEach(p => {
+    if (teamCount === 0) {
+      p.teamId = null;
+    } else if (typeof p.teamId !== 'number' || p.teamId >= teamCount) {
+      assignTeam(players, p, teamCount);
+    }
+  });
+};
+
+// A game needs at least two teams with someone on them
+export const checkTeamsReady = (players, teamCount) => {
+  if (teamCount === 0) return { ready: true };
+
+  const filled = groupByTeam(players, teamCount).filter(team => team.length > 0).length;
+  if (filled < 2) return { ready: false, error: 'At least two teams need players' };
+  return { ready: true };
+};
+
+// Each team's score - the sum of its players' scores
+export const getTeamScores = (players, teamCount) => {
+  return groupByTeam(players, teamCount).map((team, teamId) => ({
+    teamId,
+    score: team.reduce((sum, p) => sum + p.score, 0)
+  }));
+};
+
+// Turn order that alternates between teams: first of each team, then the second of each...
+export const orderByTeams = (players, teamCount) => {
+  if (teamCount === 0) return players;
+
+  const teams = groupByTeam(players, teamCount);
+  const ordered = [];
+  const longest = Math.max(...teams.map(team => team.length));
+  for (let i = 0; i < longest; i++) {
+    teams.forEach(team => {
+      if (team[i]) ordered.push(team[i]);
+    });
+  }
+  // Anyone without a valid team goes last rather than being dropped
+  return [...ordered, ...players.filter(p => !ordered.includes(p))];
+};
+
+export default {
+  getTeamCount,
+  assignTeam,
+  balanceTeams,
+  normalizeTeams,
+  checkTeamsReady,
+  getTeamScores,
+  orderByTeams
+};
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getTeamCount,
+  assignTeam,
+  balanceTeams,
+  normalizeTeams,
+  checkTeamsReady,
+  getTeamScores,
+  orderByTeams
+} from './teams.js';
+
+const player = (id, teamId = null, score = 0) => ({ id, teamId, score });
+
+describe('getTeamCount', () => {
+  it('reads the teams setting, with OFF meaning no teams', () => {
+    assert.equal(getTeamCount({ teams: '3' }), 3);
+    assert.equal(getTeamCount({ teams: 'OFF' }), 0);
+    assert.equal(getTeamCount(undefined), 0);
+  });
+});
+
+describe('assignTeam', () => {
+  it('puts a new player on the smallest team, lowest number first', () => {
+    const players = [player('a', 0), player('b', 0), player('c', 1)];
+    const newcomer = player('d');
+    assignTeam(players, newcomer, 3);
+
+    assert.equal(newcomer.teamId, 2);
+  });
+
+  it('clears the team when team mode is off', () => {
+    const p = player('a', 1);
+    assignTeam([], p, 0);
+
+    assert.equal(p.teamId, null);
+  });
+});
+
+describe('balanceTeams', () => {
+  it('deals players out so team sizes differ by at most one', () => {
+    const players = ['a', 'b', 'c', 'd', 'e'].map(id => player(id));
+    balanceTeams(players, 2);
+
+    const sizes = [0, 1].map(teamId => players.filter(p => p.teamId === teamId).length);
+    assert.deepEqual(sizes.sort(), [2, 3]);
+  });
+});
+
+describe('normalizeTeams', () => {
+  it('moves players off teams that no longer exist', () => {
+    const players = [player('a', 0), player('b', 3), player('c', 1)];
+    normalizeTeams(players, 2);
+
+    assert.deepEqual(players.map(p => p.teamId), [0, 0, 1]);
+  });
+
+  it('clears every team when team mode is turned off', () => {
+    const players = [player('a', 0), player('b', 1)];
+    normalizeTeams(players, 0);
+
+    assert.deepEqual(players.map(p => p.teamId), [null, null]);
+  });
+});
+
+describe('checkTeamsReady', () => {
+  it('needs players on at least two teams', () => {
+    assert.equal(checkTeamsReady([player('a', 0), player('b', 0)], 2).ready, false);
+    assert.equal(checkTeamsReady([player('a', 0), player('b', 1)], 2).ready, true);
+  });
+
+  it('is always ready without teams', () => {
+    assert.equal(checkTeamsReady([player('a')], 0).ready, true);
+  });
+});
+
+describe('getTeamScores', () => {
+  it('adds up the scores of each team', () => {
+    const players = [player('a', 0, 300), player('b', 1, 100), player('c', 0, 50)];
+
+    assert.deepEqual(getTeamScores(players, 3), [
+      { teamId: 0, score: 350 },
+      { teamId: 1, score: 100 },
+      { teamId: 2, score: 0 }
+    ]);
+  });
+});
+
+describe('orderByTeams', () => {
+  it('alternates between teams and puts players without a team last', () => {
+    const players = [player('a', 0), player('b', 0), player('c', 1), player('x'), player('d', 1)];
+
+    assert.deepEqual(orderByTeams(players, 2).map(p => p.id), ['a', 'c', 'b', 'd', 'x']);
+  });
+
+  it('keeps the room order without teams', () => {
+    const players = [player('a'), player('b')];
+
+    assert.equal(orderByTeams(players, 0), players);
+  });
+});
@@ -0,0 +1,280 @@
+// Telephone mode for DrawIt multiplayer - everyone writes a prompt, then the prompts travel
+// around the table: each one is drawn, that drawing is described, that description drawn...
+//
+// With n players there are n chains (one started by each player) and n steps. At step s the
+// entry for chain i is made by player (i + s) % n, so nobody works on the same chain twice.
+// Step 0 is the prompt, odd steps are drawings and even steps descriptions.
+
+import { applyDrawEvent } from './drawing.js';
+
+export const TelephoneStep = {
+  PROMPT: 'PROMPT',
+  DRAW: 'DRAW',
+  DESCRIBE: 'DESCRIBE'
+};
+
+export const MIN_TELEPHONE_PLAYERS = 3;
+export const WRITE_SECONDS = 45; // prompts and descriptions; drawings use the room's draw time
+export const MAX_TEXT_LENGTH = 100;
+
+// Stand-ins for entries nobody filled in before the time ran out
+const MISSING_DESCRIPTION = '(no answer)';
+
+// In-memory store (keyed by room code), saved along with rooms (see storage.js)
+const games = new Map();
+
+// Which kind of entry a step asks for
+export const getStepKind = (step) => {
+  if (step === 0) return TelephoneStep.PROMPT;
+  return step % 2 === 1 ? TelephoneStep.DRAW : TelephoneStep.DESCRIBE;
+};
+
+// Start a game. players is the seating order; returns the game.
+export const startTelephone = (roomCode, players) => {
+  const game = {
+    playerIds: players.map(p => p.id),
+    chains: players.map(p => ({
+      id: Math.random().toString(36).substr(2, 9),
+      ownerId: p.id,
+      ownerName: p.name,
+      entries: []
+    })),
+    step: -1,
+    stepEndsAt: null,
+    reveal: { chainIndex: 0, entryIndex: 0, done: false }
+  };
+
+  games.set(roomCode, game);
+  return game;
+};
+
+// Get the game running in a room
+export const getTelephoneGame = (roomCode) => {
+  return games.get(roomCode) || null;
+};
+
+// Delete a room's game (back to the lobby, or the room is gone)
+export const deleteTelephoneGame = (roomCode) => {
+  return games.delete(roomCode);
+};
+
+// Hand out the next step: one empty entry per chain. players gives the names.
+export const startStep = (roomCode, players, durationSeconds) => {
+  const game = games.get(roomCode);
+  if (!game) return null;
+
+  game.step += 1;
+  game.stepEndsAt = Date.now() + durationSeconds * 1000;
+
+  const kind = getStepKind(game.step);
+  const count = game.playerIds.length;
+  game.chains.forEach((chain, i) => {
+    const playerId = game.playerIds[(i + game.step) % count];
+    const player = players.find(p => p.id === playerId);
+    chain.entries.push({
+      playerId,
+      playerName: player ? player.name : 'Unknown',
+      kind: kind === TelephoneStep.DRAW ? 'DRAWING' : 'TEXT',
+      text: '',
+      drawing: [],
+      undoneOps: [],
+      submitted: false
+    });
+  });
+
+  return game;
+};
+
+// Push the current step's deadline back (the game was held while nobody was connected)
+export const delayStep = (roomCode, ms) => {
+  const game = games.get(roomCode);
+  if (!game || !game.stepEndsAt) return null;
+
+  game.stepEndsAt += ms;
+  return game;
+};
+
+// The chain a player is working on this step and what they were handed
+const getAssignment = (game, playerId) => {
+  const seat = game.playerIds.indexOf(playerId);
+  if (seat === -1 || game.step < 0) return null;
+
+  const count = game.playerIds.length;
+  const chain = game.chains[((seat - game.step) % count + count) % count];
+  const entry = chain.entries[game.step];
+  const previous = game.step > 0 ? chain.entries[game.step - 1] : null;
+  return { chain, entry, previous };
+};
+
+// Apply a draw event to a player's drawing for this step. Returns the applied event or null.
+export const applyTelephoneDraw = (roomCode, playerId, event) => {
+  const game = games.get(roomCode);
+  if (!game || getStepKind(game.step) !== TelephoneStep.DRAW) return null;
+
+  const assignment = getAssignment(game, playerId);
+  if (!assignment || assignment.entry.submitted) return null;
+
+  return applyDrawEvent(assignment.entry.drawing, event, assignment.entry.undoneOps);
+};
+
+// A player is done with this step. Text steps send their text along.
+export const submitTelephoneEntry = (roomCode, playerId, text) => {
+  const game = games.get(roomCode);
+  if (!game) return { success: false, error: 'No game in progress' };
+
+  const assignment = getAssignment(game, playerId);
+  if (!assignment) return { success: false, error: 'You are not in this game' };
+  if (assignment.entry.submitted) return { success: false, error: 'Already submitted' };
+
+  if (assignment.entry.kind === 'TEXT') {
+    const trimmed = typeof text === 'string' ? text.trim() : '';
+    if (!trimmed) return { success: false, error: 'Write something first' };
+    if (trimmed.length > MAX_TEXT_LENGTH) return { success: false, error: `At most ${MAX_TEXT_LENGTH} characters` };
+    assignment.entry.text = trimmed;
+  }
+
+  assignment.entry.submitted = true;
+  return { success: true };
+};
+
+// Whether everyone still playing has submitted this step
+export const isStepComplete = (roomCode, activePlayerIds) => {
+  const game = games.get(roomCode);
+  if (!game || game.step < 0) return false;
+
+  return game.chains.every(chain => {
+    const entry = chain.entries[game.step];
+    return entry.submitted || !activePlayerIds.includes(entry.playerId);
+  });
+};
+
+// Close the current step, filling in anything left empty (a random prompt for missing
+// prompts). Returns true when that was the last step.
+export const finishStep = (roomCode, pickPrompt) => {
+  const game = games.get(roomCode);
+  if (!game) return true;
+
+  const kind = getStepKind(game.step);
+  game.chains.forEach(chain => {
+    const entry = chain.entries[game.step];
+    if (entry.kind === 'TEXT' && !entry.text) {
+      entry.text = kind === TelephoneStep.PROMPT ? pickPrompt() : MISSING_DESCRIPTION;
+    }
+    entry.submitted = true;
+    entry.undoneOps = [];
+  });
+
+  game.stepEndsAt = null;
+  return game.step + 1 >= game.playerIds.length;
+};
+
+// Show the next entry of the reveal (host only). Returns the reveal position.
+export const advanceReveal = (roomCode) => {
+  const game = games.get(roomCode);
+  if (!game) return null;
+
+  const { reveal, chains } = game;
+  if (reveal.done) return reveal;
+
+  if (reveal.entryIndex < chains[reveal.chainIndex].entries.length - 1) {
+    reveal.entryIndex += 1;
+  } else if (reveal.chainIndex < chains.length - 1) {
+    reveal.chainIndex += 1;
+    reveal.entryIndex = 0;
+  } else {
+    reveal.done = true;
+  }
+  return reveal;
+};
+
+const toEntryView = (entry) => ({
+  playerId: entry.playerId,
+  playerName: entry.playerName,
+  kind: entry.kind,
+  text: entry.kind === 'TEXT' ? entry.text : null,
+  drawing: entry.kind === 'DRAWING' ? entry.drawing : null
+});
+
+// The game as one player sees it: their own task while playing, the revealed chains at the end
+export const buildTelephoneView = (roomCode, playerId, revealing) => {
+  const game = games.get(roomCode);
+  if (!game) return null;
+
+  const view = {
+    step: game.step,
+    totalSteps: game.playerIds.length,
+    stepKind: getStepKind(game.step),
+    timeLeft: game.stepEndsAt ? Math.max(0, Math.ceil((game.stepEndsAt - Date.now()) / 1000)) : 0,
+    submittedCount: game.step >= 0 ? game.chains.filter(chain => chain.entries[game.step].submitted).length : 0,
+    task: null,
+    reveal: null
+  };
+
+  if (revealing) {
+    const { chainIndex, entryIndex, done } = game.reveal;
+    view.reveal = {
+      chainIndex,
+      entryIndex,
+      done,
+      // Finished chains in full, the current one up to the entry being shown
+      chains: game.chains.slice(0, chainIndex + 1).map((chain, i) => ({
+        id: chain.id,
+        ownerName: chain.ownerName,
+        entries: chain.entries.slice(0, i < chainIndex || done ? undefined : entryIndex + 1).map(toEntryView)
+      }))
+    };
+    return view;
+  }
+
+  const assignment = getAssignment(game, playerId);
+  if (assignment) {
+    view.task = {
+      kind: view.stepKind,
+      submitted: assignment.entry.submitted,
+      previous: assignment.previous ? toEntryView(assignment.previous) : null
+    };
+  }
+  return view;
+};
+
+// A player's drawing in progress, to restore their canvas after a reconnect
+export const getTelephoneDraft = (roomCode, playerId) => {
+  const game = games.get(roomCode);
+  if (!game || getStepKind(game.step) !== TelephoneStep.DRAW) return null;
+
+  const assignment = getAssignment(game, playerId);
+  return assignment ? assignment.entry.drawing : null;
+};
+
+// --- Persistence ---
+
+export const exportTelephoneGames = () => {
+  return [...games.entries()].map(([roomCode, game]) => ({ roomCode, ...structuredClone(game) }));
+};
+
+export const restoreTelephoneGames = (savedGames) => {
+  games.clear();
+  savedGames.forEach(({ roomCode, ...game }) => games.set(roomCode, game));
+};
+
+export default {
+  TelephoneStep,
+  MIN_TELEPHONE_PLAYERS,
+  WRITE_SECONDS,
+  MAX_TEXT_LENGTH,
+  getStepKind,
+  startTelephone,
+  getTelephoneGame,
+  deleteTelephoneGame,
+  startStep,
+  delayStep,
+  applyTelephoneDraw,
+  submitTelephoneEntry,
+  isStepComplete,
+  finishStep,
+  advanceReveal,
+  buildTelephoneView,
+  getTelephoneDraft,
+  exportTelephoneGames,
+  restoreTelephoneGames
+};
@@ -100,7 +100,66 @@ const HARD_WORDS = [
   { word: 'Planetarium', category: 'PLACE' },
 ];
 
-export const generateWordOptions = async (round = 1, excludeWords = []) => {
+// Custom word list limits
+export const CUSTOM_WORD_MODES = ['MIX', 'CUSTOM_ONLY'];
+export const MAX_CUSTOM_WORDS = 500;
+export const MIN_CUSTOM_ONLY_WORDS = 5;
+export const MAX_CUSTOM_WORD_LENGTH = 30;
+
+// Letters (any alphabet), digits, spaces, hyphens and apostrophes
+const CUSTOM_WORD_PATTERN = /^[\p{L}\p{N}' -]+$/u;
+
+// Key used to spot duplicates regardless of case and accents
+const duplicateKey = (word) => word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Validate a host-supplied word list. Blank entries and duplicates are dropped.
+export const validateCustomWords = (input) => {
+  if (input == null) return { valid: true, customWords: null };
+  if (typeof input !== 'object' || !Array.isArray(input.words)) {
+    return { valid: false, error: 'Invalid word list' };
+  }
+  
+  const mode = input.mode || 'MIX';
+  if (!CUSTOM_WORD_MODES.includes(mode)) {
+    return { valid: false, error: 'Invalid word list mode' };
+  }
+  
+  const seen = new Set();
+  const words = [];
+  
+  for (const raw of input.words) {
+    if (typeof raw !== 'string') return { valid: false, error: 'Words must be text' };
+    
+    const word = raw.normalize('NFC').trim().replace(/\s+/g, ' ');
+    if (!word) continue;
+    
+    if (word.length > MAX_CUSTOM_WORD_LENGTH) {
+      return { valid: false, error: `"${word.slice(0, 20)}..." is longer than ${MAX_CUSTOM_WORD_LENGTH} characters` };
+    }
+    if (!CUSTOM_WORD_PATTERN.test(word)) {
+      return { valid: false, error: `"${word}" contains unsupported characters` };
+    }
+    
+    const key = duplicateKey(word);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    words.push(word);
+  }
+  
+  if (words.length > MAX_CUSTOM_WORDS) {
+    return { valid: false, error: `Word lists are limited to ${MAX_CUSTOM_WORDS} words` };
+  }
+  if (words.length === 0) {
+    return { valid: true, customWords: null };
+  }
+  if (mode === 'CUSTOM_ONLY' && words.length < MIN_CUSTOM_ONLY_WORDS) {
+    return { valid: false, error: `Custom-only games need at least ${MIN_CUSTOM_ONLY_WORDS} words` };
+  }
+  
+  return { valid: true, customWords: { mode, words } };
+};
+
+export const generateWordOptions = async (round = 1, excludeWords = [], count = 3, customWords = null) => {
   // Select word list based on round difficulty
   let wordPool = [];
   if (round === 1) {
@@ -110,39 +169,82 @@ export const generateWordOptions = async (round = 1, excludeWords = []) => {
   } else {
     wordPool = [...HARD_WORDS];
   }
+  
+  // Host-supplied words replace or join the built-in list
+  if (customWords) {
+    const custom = customWords.words.map(word => ({ word, category: 'CUSTOM' }));
+    if (customWords.mode === 'CUSTOM_ONLY') {
+      wordPool = custom;
+    } else {
+      // Skip custom words that are already in the built-in list
+      const builtIn = new Set(wordPool.map(w => duplicateKey(w.word)));
+      wordPool = [...wordPool, ...custom.filter(w => !builtIn.has(duplicateKey(w.word)))];
+    }
+  }
 
-  // Filter out used words
-  const availableWords = wordPool.filter(w => !excludeWords.includes(w.word));
+  // Filter out used words (long games can exhaust the pool, so fall back to all of it)
+  let availableWords = wordPool.filter(w => !excludeWords.includes(w.word));
+  if (availableWords.length < count) {
+    availableWords = wordPool;
+  }
 
   // Ensure we have at least one word from each category
   const actionWords = availableWords.filter(w => w.category === 'ACTION');
   const thingWords = availableWords.filter(w => w.category === 'THING');
   const placeWords = availableWords.filter(w => w.category === 'PLACE');
+  const customPoolWords = availableWords.filter(w => w.category === 'CUSTOM');
 
   const selected = [];
   
-  // Pick one from each category if available
-  if (actionWords.length > 0) {
-    selected.push(actionWords[Math.floor(Math.random() * actionWords.length)]);
-  }
-  if (thingWords.length > 0) {
-    selected.push(thingWords[Math.floor(Math.random() * thingWords.length)]);
-  }
-  if (placeWords.length > 0) {
-    selected.push(placeWords[Math.floor(Math.random() * placeWords.length)]);
-  }
+  // Pick one from each category if available (random order so custom words get a fair slot)
+  [actionWords, thingWords, placeWords, customPoolWords]
+    .sort(() => Math.random() - 0.5)
+    .forEach(words => {
+      if (words.length > 0 && selected.length < count) {
+        selected.push(words[Math.floor(Math.random() * words.length)]);
+      }
+    });
 
-  // If we don't have 3 words, fill from remaining pool
-  while (selected.length < 3 && availableWords.length > 0) {
-    const randomWord = availableWords[Math.floor(Math.random() * availableWords.length)];
-    if (!selected.find(w => w.word === randomWord.word)) {
-      selected.push(randomWord);
+  // If we don't have enough words, fill from the remaining pool
+  const remaining = availableWords
+    .filter(w => !selected.find(s => s.word === w.word))
+    .sort(() => Math.random() - 0.5);
+  
+  for (const word of remaining) {
+    if (selected.length >= count) break;
+    if (!selected.find(s => s.word === word.word)) {
+      selected.push(word);
     }
   }
 
-  // Shuffle and return up to 3 words
-  return selected.slice(0, 3).sort(() => Math.random() - 0.5);
+  // Shuffle and return
+  return selected.slice(0, count).sort(() => Math.random() - 0.5);
 };
 
-export default { generateWordOptions };
+// Pick random built-in words (used for bot guesses), skipping any in excludeWords
+export const getRandomWords = (count, excludeWords = []) => {
+  const excluded = new Set(excludeWords.map(duplicateKey));
+  const seen = new Set();
+  
+  return [...EASY_WORDS, ...MEDIUM_WORDS, ...HARD_WORDS]
+    .filter(w => {
+      const key = duplicateKey(w.word);
+      if (excluded.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort(() => Math.random() - 0.5)
+    .slice(0, count)
+    .map(w => w.word);
+};
+
+export default {
+  CUSTOM_WORD_MODES,
+  MAX_CUSTOM_WORDS,
+  MIN_CUSTOM_ONLY_WORDS,
+  MAX_CUSTOM_WORD_LENGTH,
+  validateCustomWords,
+  generateWordOptions,
+  getRandomWords
+};
 
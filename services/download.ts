@@ -0,0 +1,13 @@
+// Turn a word into something safe to use in a file name
+export const toFileName = (word: string, extension: string) =>
+  `drawit-${word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'drawing'}.${extension}`;
+
+// Save a blob through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
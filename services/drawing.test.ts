@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DrawingOp, StrokeOp } from '../types';
+import { applyDrawEvent, createDrawingCache, renderDrawingCached, DrawingCache } from './drawing';
+
+// Just enough of a canvas to see what ends up on it: each stroke is recorded by its first
+// point, a full-size fill covers everything and drawImage copies another canvas over it
+interface FakeCanvas {
+  width: number;
+  height: number;
+  painted: string[];
+  resets: number;
+  getContext: () => CanvasRenderingContext2D;
+}
+
+const createFakeCanvas = (): FakeCanvas => {
+  let width = 0;
+  let height = 0;
+  const canvas = {
+    painted: [] as string[],
+    resets: 0,
+    get width() { return width; },
+    set width(value: number) { width = value; canvas.painted = []; canvas.resets++; },
+    get height() { return height; },
+    set height(value: number) { height = value; canvas.painted = []; },
+    getContext: () => ctx
+  };
+  const ctx = {
+    canvas,
+    setTransform: () => {},
+    beginPath: () => {},
+    lineTo: () => {},
+    stroke: () => {},
+    rect: () => {},
+    ellipse: () => {},
+    moveTo: (x: number, y: number) => { canvas.painted.push(`${x},${y}`); },
+    fillRect: () => { canvas.painted = []; },
+    drawImage: (source: FakeCanvas) => { canvas.painted = [...source.painted]; }
+  } as unknown as CanvasRenderingContext2D;
+  return canvas;
+};
+
+const stroke = (n: number): StrokeOp => ({
+  kind: 'stroke', id: `s${n}`, tool: 'pen', color: '#000000', width: 4, points: [{ x: n, y: n }]
+});
+
+describe('renderDrawingCached', () => {
+  let screen: FakeCanvas;
+  let cache: DrawingCache;
+  const render = (ops: DrawingOp[]) => {
+    renderDrawingCached(screen.getContext(), ops, 1, cache);
+    return screen.painted;
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('document', { createElement: createFakeCanvas });
+    screen = createFakeCanvas();
+    screen.width = 800;
+    screen.height = 600;
+    cache = createDrawingCache();
+  });
+
+  it('draws only the ops added since the last frame', () => {
+    const [a, b, c] = [stroke(1), stroke(2), stroke(3)];
+    render([a]);
+    render([a, b]);
+    expect(render([a, b, c])).toEqual(['1,1', '2,2', '3,3']);
+
+    const picture = cache.picture as unknown as FakeCanvas;
+    expect(picture.resets).toBe(1);
+  });
+
+  it('keeps growing the last stroke without redrawing the rest', () => {
+    const a = stroke(1);
+    const b = stroke(2);
+    render([a, b]);
+
+    let ops = applyDrawEvent([a, b], { type: 'stroke-points', id: 's2', points: [{ x: 9, y: 9 }] });
+    ops = applyDrawEvent(ops, { type: 'stroke-points', id: 's2', points: [{ x: 8, y: 8 }] });
+    expect(render(ops)).toEqual(['1,1', '2,2']);
+    expect((cache.picture as unknown as FakeCanvas).resets).toBe(1);
+  });
+
+  it('leaves nothing behind after two undos in a row', () => {
+    const [a, b, c] = [stroke(1), stroke(2), stroke(3)];
+    render([a, b, c]);
+
+    expect(render([a, b])).toEqual(['1,1', '2,2']);
+    expect(render([a])).toEqual(['1,1']);
+    expect(render([])).toEqual([]);
+  });
+
+  it('starts over when the canvas is resized', () => {
+    const a = stroke(1);
+    render([a]);
+    screen.width = 400;
+    screen.height = 300;
+
+    expect(render([a])).toEqual(['1,1']);
+    expect((cache.picture as unknown as FakeCanvas).resets).toBe(2);
+  });
+});
@@ -0,0 +1,313 @@
+import { DrawEvent, DrawingOp, FillOp, ShapeOp, StrokeOp, TimelineEvent } from '../types';
+
+export const CANVAS_BACKGROUND = '#FFFFFF';
+
+// Logical drawing space shared by every client (and the server's bots).
+// Ops are stored in these coordinates and scaled to whatever size the canvas is shown at.
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+
+// How far (per channel) a pixel may differ from the clicked one and still be filled.
+// Keeps anti-aliased stroke edges from leaving a halo around fills.
+const FILL_TOLERANCE = 48;
+
+// Generate a unique id for a drawing operation
+export const createOpId = (): string => Math.random().toString(36).substr(2, 9);
+
+// Apply a draw event to a list of operations (returns a new list)
+export const applyDrawEvent = (ops: DrawingOp[], event: DrawEvent): DrawingOp[] => {
+  switch (event.type) {
+    case 'stroke-start':
+      return [...ops, { ...event.stroke, points: [...event.stroke.points] }];
+    case 'stroke-points':
+      return ops.map(op =>
+        op.kind === 'stroke' && op.id === event.id
+          ? { ...op, points: [...op.points, ...event.points] }
+          : op
+      );
+    case 'shape-start':
+      return [...ops, { ...event.shape }];
+    case 'shape-update':
+      return ops.map(op =>
+        op.kind === 'shape' && op.id === event.id ? { ...op, to: event.to } : op
+      );
+    case 'fill':
+      return [...ops, { ...event.fill }];
+    case 'stroke-end':
+    case 'shape-end':
+      return ops;
+    case 'clear':
+      return [...ops, { kind: 'clear', id: event.id }];
+    case 'undo':
+      return ops.slice(0, -1);
+    case 'redo':
+      return [...ops, event.op];
+    default:
+      return ops;
+  }
+};
+
+// Timelapses skip long pauses and are sped up to fit the maximum length
+const TIMELAPSE_MAX_GAP_MS = 400;
+export const TIMELAPSE_MAX_MS = 8000;
+
+// Playback time (ms) for each timeline event in a timelapse
+export const getTimelapseTimes = (timeline: TimelineEvent[]): number[] => {
+  let time = 0;
+  const times = timeline.map(({ t }, i) => {
+    if (i > 0) time += Math.min(Math.max(0, t - timeline[i - 1].t), TIMELAPSE_MAX_GAP_MS);
+    return time;
+  });
+
+  const speed = Math.max(1, time / TIMELAPSE_MAX_MS);
+  return times.map(t => t / speed);
+};
+
+// Track undone operations for redo (call with the ops from before the event).
+// Undo stashes the last op, redo takes it back and anything new forgets the stash.
+export const applyUndoHistory = (undone: DrawingOp[], ops: DrawingOp[], event: DrawEvent): DrawingOp[] => {
+  switch (event.type) {
+    case 'undo':
+      return ops.length > 0 ? [...undone, ops[ops.length - 1]] : undone;
+    case 'redo':
+      return undone.slice(0, -1);
+    case 'stroke-start':
+    case 'shape-start':
+    case 'fill':
+    case 'clear':
+      return [];
+    default:
+      return undone;
+  }
+};
+
+// Draw a single stroke onto a canvas context
+const drawStroke = (ctx: CanvasRenderingContext2D, stroke: StrokeOp) => {
+  if (stroke.points.length === 0) return;
+
+  ctx.strokeStyle = stroke.tool === 'eraser' ? CANVAS_BACKGROUND : stroke.color;
+  ctx.lineWidth = stroke.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.beginPath();
+  ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+  // A single point still draws a dot thanks to the round line cap
+  stroke.points.forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+};
+
+// Draw a line, rectangle or ellipse outline
+const drawShape = (ctx: CanvasRenderingContext2D, shape: ShapeOp) => {
+  const { from, to } = shape;
+
+  ctx.strokeStyle = shape.color;
+  ctx.lineWidth = shape.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.beginPath();
+  if (shape.shape === 'line') {
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+  } else if (shape.shape === 'rect') {
+    ctx.rect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+  } else {
+    ctx.ellipse(
+      (from.x + to.x) / 2,
+      (from.y + to.y) / 2,
+      Math.abs(to.x - from.x) / 2,
+      Math.abs(to.y - from.y) / 2,
+      0, 0, Math.PI * 2
+    );
+  }
+  ctx.stroke();
+};
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+// Offscreen canvas at the logical size, cleared to the background. Fills are worked out on
+// one of these so they cover the same area on every screen, whatever its resolution.
+const createLogicalContext = (): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.fillStyle = CANVAS_BACKGROUND;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  return ctx;
+};
+
+// Scanline flood fill on the logical canvas. Fills it there and returns a canvas holding just
+// the filled pixels, to be drawn (scaled) onto the visible one - or null if nothing was filled.
+const floodFill = (logical: CanvasRenderingContext2D, fill: FillOp): HTMLCanvasElement | null => {
+  const width = CANVAS_WIDTH;
+  const height = CANVAS_HEIGHT;
+  if (fill.point.x < 0 || fill.point.y < 0 || fill.point.x > width || fill.point.y > height) return null;
+  const startX = Math.min(width - 1, Math.floor(fill.point.x));
+  const startY = Math.min(height - 1, Math.floor(fill.point.y));
+
+  const image = logical.getImageData(0, 0, width, height);
+  const data = image.data;
+  const filled = new ImageData(width, height);
+  const start = (startY * width + startX) * 4;
+  const target = [data[start], data[start + 1], data[start + 2]];
+  const [r, g, b] = hexToRgb(fill.color);
+
+  const matches = (pixel: number) => {
+    const i = pixel * 4;
+    return Math.abs(data[i] - target[0]) <= FILL_TOLERANCE &&
+      Math.abs(data[i + 1] - target[1]) <= FILL_TOLERANCE &&
+      Math.abs(data[i + 2] - target[2]) <= FILL_TOLERANCE;
+  };
+
+  const visited = new Uint8Array(width * height);
+  const stack = [startY * width + startX];
+
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    const y = Math.floor(pixel / width);
+    let x = pixel % width;
+
+    // Walk left to the start of this run, then fill rightwards
+    while (x > 0 && !visited[y * width + x - 1] && matches(y * width + x - 1)) x--;
+
+    let spanUp = false;
+    let spanDown = false;
+    for (; x < width; x++) {
+      const p = y * width + x;
+      if (visited[p] || !matches(p)) break;
+
+      visited[p] = 1;
+      data[p * 4] = filled.data[p * 4] = r;
+      data[p * 4 + 1] = filled.data[p * 4 + 1] = g;
+      data[p * 4 + 2] = filled.data[p * 4 + 2] = b;
+      data[p * 4 + 3] = filled.data[p * 4 + 3] = 255;
+
+      if (y > 0) {
+        const up = p - width;
+        const open = !visited[up] && matches(up);
+        if (open && !spanUp) stack.push(up);
+        spanUp = open;
+      }
+      if (y < height - 1) {
+        const down = p + width;
+        const open = !visited[down] && matches(down);
+        if (open && !spanDown) stack.push(down);
+        spanDown = open;
+      }
+    }
+  }
+
+  logical.putImageData(image, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(filled, 0, 0);
+  return canvas;
+};
+
+// Draw a clear, stroke or shape (fills need the logical canvas, see drawOp)
+const paintOp = (ctx: CanvasRenderingContext2D, op: DrawingOp) => {
+  switch (op.kind) {
+    case 'clear':
+      ctx.fillStyle = CANVAS_BACKGROUND;
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      break;
+    case 'stroke':
+      drawStroke(ctx, op);
+      break;
+    case 'shape':
+      drawShape(ctx, op);
+      break;
+  }
+};
+
+// Draw an operation, keeping the logical copy (if there is one) in step
+const drawOp = (ctx: CanvasRenderingContext2D, op: DrawingOp, logical: CanvasRenderingContext2D | null) => {
+  if (op.kind !== 'fill') {
+    paintOp(ctx, op);
+    if (logical) paintOp(logical, op);
+    return;
+  }
+
+  const filled = logical && floodFill(logical, op);
+  if (filled) ctx.drawImage(filled, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+};
+
+// Replay every operation onto a canvas context.
+// Scale is device pixels per logical unit (canvas.width / CANVAS_WIDTH).
+export const renderDrawing = (ctx: CanvasRenderingContext2D, ops: DrawingOp[], scale: number) => {
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = CANVAS_BACKGROUND;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // Only fills read the picture back, so the logical copy is only kept when there is one
+  const logical = ops.some(op => op.kind === 'fill') ? createLogicalContext() : null;
+  ops.forEach(op => drawOp(ctx, op, logical));
+};
+
+// A drawing kept on offscreen canvases between frames (see renderDrawingCached)
+export interface DrawingCache {
+  picture: HTMLCanvasElement; // the ops drawn so far, at the visible canvas's resolution
+  logical: CanvasRenderingContext2D | null; // the same at the logical size, once there is a fill
+  ops: DrawingOp[]; // the ops already on the cache
+}
+
+export const createDrawingCache = (): DrawingCache => ({
+  picture: document.createElement('canvas'),
+  logical: null,
+  ops: []
+});
+
+// Show ops on a canvas context, drawing only the ops added since the last call onto the cache.
+// Anything else (an undo, a resize, a whole new drawing) replays the cache from the start.
+export const renderDrawingCached = (ctx: CanvasRenderingContext2D, ops: DrawingOp[], scale: number, cache: DrawingCache) => {
+  // The last stroke or shape may still be growing - it stays out of the cache and is drawn on
+  // top each frame until another op follows it
+  const last = ops[ops.length - 1];
+  const live = last && (last.kind === 'stroke' || last.kind === 'shape') ? last : null;
+  const finished = live ? ops.slice(0, -1) : ops;
+
+  // The cache only ever holds finished ops, so that's what it has to be a prefix of - an undo
+  // that takes off a cached op has to start over
+  const { picture } = cache;
+  const pictureCtx = picture.getContext('2d')!;
+  const canReuse = picture.width === ctx.canvas.width &&
+    picture.height === ctx.canvas.height &&
+    cache.ops.length <= finished.length &&
+    cache.ops.every((op, i) => finished[i] === op);
+
+  if (!canReuse) {
+    picture.width = ctx.canvas.width;
+    picture.height = ctx.canvas.height;
+    pictureCtx.setTransform(scale, 0, 0, scale, 0, 0);
+    pictureCtx.fillStyle = CANVAS_BACKGROUND;
+    pictureCtx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    cache.logical = null;
+    cache.ops = [];
+  }
+
+  for (let i = cache.ops.length; i < finished.length; i++) {
+    const op = finished[i];
+    if (op.kind === 'fill' && !cache.logical) {
+      const logical = createLogicalContext();
+      finished.slice(0, i).forEach(earlier => paintOp(logical, earlier));
+      cache.logical = logical;
+    }
+    drawOp(pictureCtx, op, cache.logical);
+  }
+  cache.ops = finished;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(picture, 0, 0);
+  if (live) {
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    paintOp(ctx, live);
+  }
+};
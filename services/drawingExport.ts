@@ -0,0 +1,91 @@
+import { DrawingOp, TimelineEvent } from '../types';
+import { applyDrawEvent, getTimelapseTimes, renderDrawing, CANVAS_WIDTH, CANVAS_HEIGHT } from './drawing';
+import { downloadBlob, toFileName } from './download';
+
+// How long the finished picture stays on screen at the end of a video
+const VIDEO_HOLD_MS = 1500;
+const VIDEO_FPS = 30;
+
+// Formats tried in order; Safari only records MP4
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'];
+
+const createCanvas = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  return canvas;
+};
+
+// Download the finished drawing as a PNG at the logical canvas size
+export const downloadPng = (drawing: DrawingOp[], word: string): Promise<void> => {
+  const canvas = createCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'));
+
+  renderDrawing(ctx, drawing, 1);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Could not create the image'));
+        return;
+      }
+      downloadBlob(blob, toFileName(word, 'png'));
+      resolve();
+    }, 'image/png');
+  });
+};
+
+// Whether this browser can record a timelapse video
+export const canRecordVideo = (): boolean =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+  VIDEO_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+// Record the timelapse in the browser and download it (WebM, or MP4 where that's all there is).
+// Recording happens in real time, so this resolves after the timelapse has played through.
+export const downloadTimelapseVideo = (timeline: TimelineEvent[], word: string): Promise<void> => {
+  const mimeType = VIDEO_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+  const canvas = createCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!mimeType || !ctx || !canRecordVideo()) return Promise.reject(new Error('Video recording is not supported in this browser'));
+
+  const times = getTimelapseTimes(timeline);
+  const length = (times.length > 0 ? times[times.length - 1] : 0) + VIDEO_HOLD_MS;
+  const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS), { mimeType });
+  const chunks: Blob[] = [];
+
+  return new Promise((resolve, reject) => {
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onerror = () => reject(new Error('Recording failed'));
+    recorder.onstop = () => {
+      downloadBlob(new Blob(chunks, { type: mimeType }), toFileName(word, mimeType.startsWith('video/mp4') ? 'mp4' : 'webm'));
+      resolve();
+    };
+
+    let ops: DrawingOp[] = [];
+    let next = 0;
+    const startedAt = performance.now();
+
+    const frame = () => {
+      const elapsed = performance.now() - startedAt;
+      while (next < timeline.length && times[next] <= elapsed) {
+        ops = applyDrawEvent(ops, timeline[next].event);
+        next++;
+      }
+      renderDrawing(ctx, ops, 1);
+
+      if (elapsed >= length) {
+        recorder.stop();
+      } else {
+        requestAnimationFrame(frame);
+      }
+    };
+
+    renderDrawing(ctx, ops, 1);
+    recorder.start();
+    requestAnimationFrame(frame);
+  });
+};
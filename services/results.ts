@@ -0,0 +1,46 @@
+import { GameRecord } from '../types';
+import { TEAMS } from '../constants';
+import { downloadBlob, toFileName } from './download';
+
+const CSV_COLUMNS = ['type', 'round', 'word', 'drawer', 'player', 'rank', 'score', 'points', 'guess_time_s'];
+
+// Quote a CSV field when it holds a separator, quote or line break. Text that a spreadsheet would
+// read as a formula (player names, words) gets a leading ' so it stays text.
+const toCsvField = (value: string | number | null) => {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per team (in team mode) and per player with the final standings, then for every turn a row with the
+// drawer's points followed by one row per correct guess
+export const toResultsCsv = (record: GameRecord): string => {
+  const rows: (string | number | null)[][] = [CSV_COLUMNS];
+
+  record.teams?.forEach(team => {
+    rows.push(['team', null, null, null, `${TEAMS[team.teamId]?.name ?? team.teamId + 1} Team`, team.rank, team.score, null, null]);
+  });
+
+  record.players.forEach(p => {
+    rows.push(['player', null, null, null, p.name, p.rank, p.score, null, null]);
+  });
+
+  record.turns.forEach(turn => {
+    rows.push(['turn', turn.round, turn.word, turn.drawerName, turn.drawerName, null, null, turn.drawerPoints, null]);
+    turn.guessers.forEach(g => {
+      rows.push(['guess', turn.round, turn.word, turn.drawerName, g.playerName, null, null, g.points, (g.timeMs / 1000).toFixed(1)]);
+    });
+  });
+
+  return rows.map(row => row.map(toCsvField).join(',')).join('\r\n');
+};
+
+export const downloadResultsJson = (record: GameRecord) => {
+  const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, toFileName(`${record.roomName} results`, 'json'));
+};
+
+export const downloadResultsCsv = (record: GameRecord) => {
+  const blob = new Blob([toResultsCsv(record)], { type: 'text/csv' });
+  downloadBlob(blob, toFileName(`${record.roomName} results`, 'csv'));
+};
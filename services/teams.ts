@@ -0,0 +1,26 @@
+import { Player, RoomSettings } from '../types';
+
+export interface TeamStanding {
+  teamId: number;
+  players: Player[]; // highest score first
+  score: number; // sum of the players' scores
+}
+
+// Number of teams for the room's teams setting (0 = team mode off, mirrors server/teams.js)
+export const getTeamCount = (settings?: RoomSettings): number => {
+  const count = Number(settings?.teams);
+  return Number.isInteger(count) ? count : 0;
+};
+
+// Players grouped by team, every team listed even when empty
+export const groupByTeam = (players: Player[], teamCount: number): TeamStanding[] =>
+  Array.from({ length: teamCount }, (_, teamId) => {
+    const members = players.filter(p => p.teamId === teamId).sort((a, b) => b.score - a.score);
+    return { teamId, players: members, score: members.reduce((sum, p) => sum + p.score, 0) };
+  });
+
+// Teams with players on them, best score first
+export const rankTeams = (players: Player[], teamCount: number): TeamStanding[] =>
+  groupByTeam(players, teamCount)
+    .filter(team => team.players.length > 0)
+    .sort((a, b) => b.score - a.score);
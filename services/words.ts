@@ -144,3 +144,11 @@ export const generateWordOptions = async (round: number = 1, excludeWords: strin
   return selected.slice(0, 3).sort(() => Math.random() - 0.5);
 };
 
+
+// Split pasted or uploaded text into words (one per line or comma-separated)
+export const parseCustomWords = (text: string): string[] => {
+  return text
+    .split(/[\n,;]/)
+    .map(w => w.trim())
+    .filter(w => w.length > 0);
+};
@@ -2,6 +2,7 @@ export enum GamePhase {
   MENU = 'MENU',
   HOST_SETUP = 'HOST_SETUP',
   LOBBY_BROWSER = 'LOBBY_BROWSER',
+  PROFILE = 'PROFILE', // Own profile and lifetime stats
   LOBBY_WAITING = 'LOBBY_WAITING', // Inside a room, customizing avatar
   ROOM_LOBBY = 'ROOM_LOBBY', // Waiting for players to start
   ROUND_START = 'ROUND_START',
@@ -11,6 +12,11 @@ export enum GamePhase {
   TURN_END = 'TURN_END',
   ROUND_END = 'ROUND_END',
   GAME_OVER = 'GAME_OVER',
+  // Telephone mode - everyone works at once, then the chains are revealed
+  TELEPHONE_PROMPT = 'TELEPHONE_PROMPT',
+  TELEPHONE_DRAW = 'TELEPHONE_DRAW',
+  TELEPHONE_DESCRIBE = 'TELEPHONE_DESCRIBE',
+  TELEPHONE_REVEAL = 'TELEPHONE_REVEAL',
 }
 
 export enum PlayerType {
@@ -31,21 +37,97 @@ export interface Player {
   score: number;
   avatar: AvatarConfig;
   hasGuessedCorrectly: boolean;
+  isConnected?: boolean; // false while inside the server's reconnect grace period
+  profileId?: string | null; // set by the server when the player joined with a verified profile
+  teamId?: number | null; // index into TEAMS when team mode is on
 }
 
+// --- Profiles ---
+
+export interface ProfileStats {
+  gamesPlayed: number;
+  wins: number;
+  wordsGuessed: number;
+  averageGuessTimeMs: number | null; // null until the first correct guess
+  drawingsGuessed: number; // own drawings that someone guessed
+}
+
+// Saved name, avatar and lifetime stats (public view - the claim token is kept separately)
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: AvatarConfig;
+  createdAt: number;
+  stats: ProfileStats;
+}
+
+// What the browser keeps to claim its profile again
+export interface ProfileClaim {
+  id: string;
+  token: string;
+}
+
+// Watches a room without taking a turn, guessing or scoring
+export interface Spectator {
+  id: string;
+  name: string;
+  avatar: AvatarConfig;
+  isConnected?: boolean;
+}
+
+// Starting score for players who join a game in progress
+export type LateJoinScore = 'ZERO' | 'LOWEST';
+
+export type VoteKickSetting = 'ON' | 'OFF';
+
+// How correct guesses are scored (see server/scoring.js)
+export type ScoringStrategy = 'RANK' | 'TIME' | 'DRAWER_SHARE';
+
+export type GameMode = 'CLASSIC' | 'TELEPHONE';
+
+// Number of teams sharing a score, or OFF for every player for themselves
+export type TeamSetting = 'OFF' | '2' | '3' | '4';
+
+export interface RoomSettings {
+  rounds: number;
+  drawTime: number; // seconds per turn
+  maxPlayers: number;
+  wordChoices: number; // words offered to the drawer
+  hintCount: number; // letters revealed over the turn
+  lateJoinScore: LateJoinScore;
+  voteKick: VoteKickSetting; // players may vote to kick while the host is away
+  scoring: ScoringStrategy;
+  teams: TeamSetting;
+  mode: GameMode;
+}
+
+export type NumericRoomSetting = 'rounds' | 'drawTime' | 'maxPlayers' | 'wordChoices' | 'hintCount';
+export type ChoiceRoomSetting = Exclude<keyof RoomSettings, NumericRoomSetting>;
+
 export interface Room {
   id: string;
   name: string;
   isPrivate: boolean;
   password?: string; // In a real app, never store plain text
   playerCount: number;
+  spectatorCount?: number;
   maxPlayers: number;
   status: 'WAITING' | 'PLAYING';
+  hostId?: string;
+  settings?: RoomSettings;
+  customWords?: { mode: CustomWordMode; count: number } | null; // summary only, never the words
 }
 
 export interface WordOption {
   word: string;
-  category: 'ACTION' | 'THING' | 'PLACE';
+  category: 'ACTION' | 'THING' | 'PLACE' | 'CUSTOM';
+}
+
+export type CustomWordMode = 'MIX' | 'CUSTOM_ONLY';
+
+export interface CustomWordList {
+  mode: CustomWordMode;
+  words: string[];
 }
 
 export interface GameState {
@@ -54,15 +136,95 @@ export interface GameState {
   totalRounds: number;
   players: Player[];
   currentPlayerIndex: number;
+  drawerId?: string | null; // multiplayer: turn order is tracked by player id
   currentWord: WordOption | null;
+  maskedWord: string | null; // e.g. "C__ ___" - hidden letters are underscores
   wordOptions: WordOption[];
+  paused?: boolean; // the host has paused the game
+  rerollsLeft?: number; // fresh word options the drawer can still ask for this turn
   timeLeft: number;
   messages: ChatMessage[];
-  canvasData: string | null;
+  drawing: DrawingOp[];
+  undoneOps: DrawingOp[]; // ops taken off by undo, newest last - redo puts them back
   drawingImageUrl: string | null;
   winner: Player | null;
   currentRoom: Room | null;
   usedWords: string[];
+  gameId?: string | null; // match history record, once the game is over
+  turnSummary?: GameRecordTurn | null; // the turn that just ended, during TURN_END
+  telephone?: TelephoneView | null; // Telephone mode only
+}
+
+// --- Telephone mode ---
+
+export type TelephoneStepKind = 'PROMPT' | 'DRAW' | 'DESCRIBE';
+
+// One link of a chain: a prompt or description (TEXT) or a drawing
+export interface TelephoneEntry {
+  playerId: string;
+  playerName: string;
+  kind: 'TEXT' | 'DRAWING';
+  text: string | null;
+  drawing: DrawingOp[] | null;
+}
+
+export interface TelephoneChain {
+  id: string;
+  ownerName: string; // who wrote the first prompt
+  entries: TelephoneEntry[];
+}
+
+// Telephone state as seen by one player
+export interface TelephoneView {
+  step: number;
+  totalSteps: number;
+  stepKind: TelephoneStepKind;
+  timeLeft: number; // seconds, when the payload was sent
+  submittedCount: number;
+  // This player's job for the step (null for late joiners and during the reveal)
+  task: {
+    kind: TelephoneStepKind;
+    submitted: boolean;
+    previous: TelephoneEntry | null; // what they were handed
+  } | null;
+  // Chains shown so far, the last one up to the entry being revealed
+  reveal: {
+    chainIndex: number;
+    entryIndex: number;
+    done: boolean;
+    chains: TelephoneChain[];
+  } | null;
+}
+
+// --- Moderation ---
+
+// An open vote to kick a player, as seen by one player
+export interface VoteKick {
+  targetId: string;
+  targetName: string;
+  votes: number;
+  needed: number;
+  expiresAt: number;
+  hasVoted: boolean;
+}
+
+// Why we were removed from a room
+export interface KickInfo {
+  roomCode: string;
+  roomName: string;
+  reason: string;
+  banned: boolean;
+}
+
+// Who a chat message belongs to. Spectator chat is only shown to spectators;
+// guessed chat only to the drawer and players who already guessed the word.
+export type ChatChannel = 'ALL' | 'SPECTATOR' | 'GUESSED';
+
+// Server reply to a guess or chat message. A rejected message says why and when to retry.
+export interface ChatResult {
+  success: boolean;
+  error?: string;
+  retryAfter?: number; // ms
 }
 
 export interface ChatMessage {
@@ -72,9 +234,151 @@ export interface ChatMessage {
   text: string;
   isSystem?: boolean;
   isCorrectGuess?: boolean;
+  isCloseGuess?: boolean; // Private near-miss hint, only sent to the guesser
+  visibleTo?: string[]; // Player ids allowed to see this message (everyone if omitted)
+  channel?: ChatChannel;
   timestamp: number;
 }
 
+// --- Drawing (vector stroke protocol) ---
+
+// Freehand tools produce strokes; the rest produce shapes or fills
+export type BrushTool = 'pen' | 'eraser';
+export type ShapeKind = 'line' | 'rect' | 'ellipse';
+export type DrawTool = BrushTool | ShapeKind | 'fill';
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+}
+
+export interface StrokeOp {
+  kind: 'stroke';
+  id: string;
+  tool: BrushTool;
+  color: string;
+  width: number;
+  points: StrokePoint[];
+}
+
+// Line, rectangle or ellipse spanning from one corner/end to the other
+export interface ShapeOp {
+  kind: 'shape';
+  id: string;
+  shape: ShapeKind;
+  color: string;
+  width: number;
+  from: StrokePoint;
+  to: StrokePoint;
+}
+
+// Flood fill of the area around a point, applied to whatever is drawn before it
+export interface FillOp {
+  kind: 'fill';
+  id: string;
+  color: string;
+  point: StrokePoint;
+}
+
+export interface ClearOp {
+  kind: 'clear';
+  id: string;
+}
+
+// A drawing is the ordered list of operations; replaying them rebuilds the canvas
+export type DrawingOp = StrokeOp | ShapeOp | FillOp | ClearOp;
+
+// Events sent by the drawer and relayed to everyone else in the room
+export type DrawEvent =
+  | { type: 'stroke-start'; stroke: StrokeOp }
+  | { type: 'stroke-points'; id: string; points: StrokePoint[] }
+  | { type: 'stroke-end'; id: string }
+  | { type: 'shape-start'; shape: ShapeOp }
+  | { type: 'shape-update'; id: string; to: StrokePoint }
+  | { type: 'shape-end'; id: string }
+  | { type: 'fill'; fill: FillOp }
+  | { type: 'clear'; id: string }
+  | { type: 'undo' }
+  | { type: 'redo'; op: DrawingOp };
+
+// A draw event with when it happened (ms since the drawer picked the word)
+export interface TimelineEvent {
+  t: number;
+  event: DrawEvent;
+}
+
+// A finished turn kept for the game-over gallery
+export interface GalleryEntry {
+  id: string;
+  round: number;
+  word: string;
+  drawerId: string | null;
+  drawerName: string;
+  guessers: { id: string; name: string }[];
+  drawing: DrawingOp[];
+  timeline: TimelineEvent[];
+  duration: number;
+}
+
+// --- Match history ---
+
+// Served records carry names and scores only - player ids stay on the server
+export interface GameRecordPlayer {
+  name: string;
+  type: PlayerType;
+  teamId: number | null;
+  score: number;
+  rank: number; // tied scores share a rank
+}
+
+export interface GameRecordTeam {
+  teamId: number;
+  score: number;
+  rank: number;
+}
+
+// One part of a score, e.g. { label: 'base', points: 500 }
+export interface PointsPart {
+  label: string;
+  points: number;
+}
+
+export interface GameRecordGuess {
+  playerId?: string; // live turn summaries only
+  playerName: string;
+  timeMs: number; // after the word was picked
+  points: number;
+  breakdown: PointsPart[];
+}
+
+export interface GameRecordTurn {
+  round: number;
+  word: string;
+  drawerId?: string | null; // live turn summaries only
+  drawerName: string;
+  guessers: GameRecordGuess[];
+  drawerPoints: number;
+  drawerBreakdown: PointsPart[];
+  startedAt: number | null;
+  endedAt: number;
+  durationMs: number;
+}
+
+// A finished game as served by /games/:id
+export interface GameRecord {
+  id: string;
+  roomCode: string;
+  roomName: string;
+  isPrivate: boolean;
+  startedAt: number | null;
+  endedAt: number;
+  rounds: number;
+  settings: RoomSettings;
+  players: GameRecordPlayer[];
+  teams: GameRecordTeam[] | null; // null unless team mode was on
+  turns: GameRecordTurn[];
+}
+
 export const AVATAR_ACCESSORIES = ['None', '🕶️', '🎩', '👑', '🎀', '🎧', '🧙', '🤠', '👽', '😷'];
 export const AVATAR_SHAPES = ['circle', 'square', 'rounded'] as const;
 
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -14,6 +15,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // The server has its own tests (npm test in server/)
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', 'server/**']
       }
     };
 });